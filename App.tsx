@@ -9,17 +9,31 @@ import { TutorialScreen } from './src/screens/TutorialScreen';
 import { LevelSelectScreen } from './src/screens/LevelSelectScreen';
 import { StatsScreen } from './src/screens/StatsScreen';
 import { LoadingScreen } from './src/screens/LoadingScreen';
+import { ReplayScreen } from './src/screens/ReplayScreen';
+import { EditorScreen } from './src/screens/EditorScreen';
+import { VersusScreen } from './src/screens/VersusScreen';
 import { GameSettings, Storage } from './src/utils/storage';
 import { SoundManager } from './src/utils/SoundManager';
-import { SpeedSetting, GameMode, SavedGameState, EndlessSnapshot } from './src/game/utils/types';
+import { DEFAULT_KEY_REPEAT, SINGLE_PLAYER_KEYS } from './src/utils/keyBindings';
+import { SpeedSetting, GameMode, SavedGameState, EngineSnapshot, ReplayLog, PuzzleLevel, DailyResult, SprintBests, SprintRecord } from './src/game/utils/types';
+import { EXPERT_COLOR_COUNT, GameState, SPRINT_BOARD_SIZE } from './src/game/utils/constants';
+import { PUZZLE_PACKS } from './src/game/puzzles';
+import { DAILY_SPEED, dailyLevel, dailySeed, dailyStreak, dateKey } from './src/game/daily/DailyChallenge';
 
-type Screen = 'menu' | 'game' | 'settings' | 'tutorial' | 'levels' | 'stats';
+type Screen = 'menu' | 'game' | 'settings' | 'tutorial' | 'levels' | 'stats' | 'replay' | 'editor' | 'versus';
 
 const DEFAULT_SETTINGS: GameSettings = {
   speedSetting: SpeedSetting.MEDIUM,
   soundEnabled: true,
   hapticsEnabled: true,
   reducedMotion: false,
+  hintsEnabled: false,
+  landingGhost: true,
+  colorPalette: 'standard',
+  colorSymbols: false,
+  webNarration: false,
+  keyBindings: SINGLE_PLAYER_KEYS,
+  keyRepeat: DEFAULT_KEY_REPEAT,
 };
 
 export default function App() {
@@ -28,21 +42,48 @@ export default function App() {
   const [tutorialSeen, setTutorialSeen] = useState(false);
   const [settings, setSettings] = useState<GameSettings>(DEFAULT_SETTINGS);
   const [savedGame, setSavedGame] = useState<SavedGameState | null>(null);
-  const [endlessSave, setEndlessSave] = useState<EndlessSnapshot | null>(null);
+  const [endlessSave, setEndlessSave] = useState<EngineSnapshot | null>(null);
+  // Classic tray left part way through, if any
+  const [classicSave, setClassicSave] = useState<EngineSnapshot | null>(null);
   const [startLevel, setStartLevel] = useState(1);
   const [startScore, setStartScore] = useState(0);
   const [gameMode, setGameMode] = useState<GameMode>(GameMode.CLASSIC);
-  // Snapshot handed to GameScreen to resume an Endless run (null = fresh)
-  const [resumeSnapshot, setResumeSnapshot] = useState<EndlessSnapshot | null>(null);
+  // Snapshot handed to GameScreen to resume an Endless or Classic run
+  // (null = fresh)
+  const [resumeSnapshot, setResumeSnapshot] = useState<EngineSnapshot | null>(null);
+  // Recorded run being watched from the stats screen
+  const [watchedReplay, setWatchedReplay] = useState<ReplayLog | null>(null);
+  // Recorded run being raced as a ghost, if any
+  const [ghostReplay, setGhostReplay] = useState<ReplayLog | null>(null);
+  // Puzzle being played (GameMode.PUZZLE) and the ids solved so far
+  const [activePuzzle, setActivePuzzle] = useState<PuzzleLevel | null>(null);
+  const [solvedPuzzles, setSolvedPuzzles] = useState<string[]>([]);
+  // Levels built in the editor, the draft last play-tested from it, and
+  // whether the current game is that play-test (back returns to the editor)
+  const [customPuzzles, setCustomPuzzles] = useState<PuzzleLevel[]>([]);
+  const [editorDraft, setEditorDraft] = useState<PuzzleLevel | null>(null);
+  const [playTesting, setPlayTesting] = useState(false);
+  // Daily challenge: past attempts, the date of the board being played, and
+  // whether this run is that day's scored attempt (later runs are practice)
+  const [dailyHistory, setDailyHistory] = useState<DailyResult[]>([]);
+  const [dailyDate, setDailyDate] = useState(dateKey());
+  const [dailyScored, setDailyScored] = useState(false);
+  // Fastest sprint clear per difficulty
+  const [sprintBests, setSprintBests] = useState<SprintBests>({});
   const screenOpacity = useSharedValue(1);
 
   useEffect(() => {
     (async () => {
-      const [loadedSettings, loadedGame, loadedEndless, hasSeenTutorial] = await Promise.all([
+      const [loadedSettings, loadedGame, loadedEndless, loadedClassic, hasSeenTutorial, loadedSolved, loadedCustom, loadedDaily, loadedSprint] = await Promise.all([
         Storage.loadSettings(),
         Storage.loadGameProgress(),
         Storage.loadEndlessGame(),
+        Storage.loadClassicRun(),
         Storage.hasSeenTutorial(),
+        Storage.loadSolvedPuzzles(),
+        Storage.loadCustomPuzzles(),
+        Storage.loadDailyHistory(),
+        Storage.loadSprintBests(),
       ]);
       if (loadedSettings) {
         setSettings(loadedSettings);
@@ -51,7 +92,12 @@ export default function App() {
       }
       setSavedGame(loadedGame);
       setEndlessSave(loadedEndless);
+      setClassicSave(loadedClassic);
       setTutorialSeen(hasSeenTutorial);
+      setSolvedPuzzles(loadedSolved);
+      setCustomPuzzles(loadedCustom);
+      setDailyHistory(loadedDaily);
+      setSprintBests(loadedSprint);
       setIsReady(true);
     })();
   }, []);
@@ -63,8 +109,16 @@ export default function App() {
 
   const screenAnimatedStyle = useAnimatedStyle(() => ({ opacity: screenOpacity.value }));
 
+  // Starting any Classic tray fresh gives up the one left part way
+  const discardClassicRun = async () => {
+    setClassicSave(null);
+    setResumeSnapshot(null);
+    await Storage.clearClassicRun();
+  };
+
   const handleStartNewGame = async () => {
     await Storage.clearGameProgress();
+    await discardClassicRun();
     setSavedGame(null);
     setStartLevel(1);
     setStartScore(0);
@@ -78,12 +132,51 @@ export default function App() {
 
   const handleSelectLevel = async (level: number) => {
     await Storage.clearGameProgress();
+    await discardClassicRun();
     setStartLevel(level);
     setStartScore(0);
     setGameMode(GameMode.CLASSIC);
     setCurrentScreen('game');
   };
 
+  // Puzzles don't touch Classic progress; they only record being solved
+  const handleSelectPuzzle = (puzzle: PuzzleLevel) => {
+    setActivePuzzle(puzzle);
+    setPlayTesting(false);
+    setStartLevel(1);
+    setStartScore(0);
+    setGameMode(GameMode.PUZZLE);
+    setCurrentScreen('game');
+  };
+
+  const handlePuzzleSolved = async (puzzleId: string) => {
+    setSolvedPuzzles(prev => (prev.includes(puzzleId) ? prev : [...prev, puzzleId]));
+    await Storage.markPuzzleSolved(puzzleId);
+  };
+
+  const handlePlayTest = (puzzle: PuzzleLevel) => {
+    setEditorDraft(puzzle);
+    setActivePuzzle(puzzle);
+    setPlayTesting(true);
+    setStartLevel(1);
+    setStartScore(0);
+    setGameMode(GameMode.PUZZLE);
+    setCurrentScreen('game');
+  };
+
+  const handleSaveCustomPuzzle = async (puzzle: PuzzleLevel) => {
+    setEditorDraft(puzzle);
+    setCustomPuzzles(prev =>
+      prev.some(p => p.id === puzzle.id) ? prev.map(p => (p.id === puzzle.id ? puzzle : p)) : [...prev, puzzle]
+    );
+    await Storage.saveCustomPuzzle(puzzle);
+  };
+
+  const handleDeleteCustomPuzzle = async (id: string) => {
+    setCustomPuzzles(prev => prev.filter(p => p.id !== id));
+    await Storage.deleteCustomPuzzle(id);
+  };
+
   const handleTutorialComplete = async () => {
     await Storage.markTutorialSeen();
     setTutorialSeen(true);
@@ -102,6 +195,37 @@ export default function App() {
     setCurrentScreen('game');
   };
 
+  // Waves against the clock; nothing is saved mid-run
+  const handleStartTimeAttack = () => {
+    setStartLevel(1);
+    setStartScore(0);
+    setGameMode(GameMode.TIME_ATTACK);
+    setCurrentScreen('game');
+  };
+
+  const handleStartSprint = () => {
+    setStartLevel(1);
+    setStartScore(0);
+    setGameMode(GameMode.SPRINT);
+    setCurrentScreen('game');
+  };
+
+  // Endless waves with extra colors; like time attack, nothing is saved
+  const handleStartExpert = () => {
+    setStartLevel(1);
+    setStartScore(0);
+    setGameMode(GameMode.EXPERT);
+    setCurrentScreen('game');
+  };
+
+  // Only a faster clear replaces the best for its speed
+  const handleSprintCleared = async (speedSetting: SpeedSetting, record: SprintRecord) => {
+    const best = sprintBests[speedSetting];
+    if (best && best.timeMs <= record.timeMs) return;
+    setSprintBests(prev => ({ ...prev, [speedSetting]: record }));
+    await Storage.saveSprintRecord(speedSetting, record);
+  };
+
   // Resume a previously saved Endless run from its snapshot
   const handleResumeEndless = () => {
     if (!endlessSave) {
@@ -109,27 +233,38 @@ export default function App() {
       return;
     }
     setResumeSnapshot(endlessSave);
-    setStartLevel(endlessSave.wave);
-    setStartScore(endlessSave.score);
+    setStartLevel(endlessSave.stats.level);
+    setStartScore(endlessSave.stats.score);
     setGameMode(GameMode.ENDLESS);
     setCurrentScreen('game');
   };
 
-  // Persist the run each wave / when leaving, so it can be resumed later
-  const handleEndlessCheckpoint = async (snapshot: EndlessSnapshot) => {
-    const stamped = { ...snapshot, lastPlayed: new Date().toISOString() };
-    setEndlessSave(stamped);
-    await Storage.saveEndlessGame(stamped);
+  // Persist the run (each Endless wave, on pause, when leaving) so it can
+  // be resumed later
+  const handleCheckpoint = async (snapshot: EngineSnapshot) => {
+    if (snapshot.mode === GameMode.CLASSIC) {
+      setClassicSave(snapshot);
+      await Storage.saveClassicRun(snapshot);
+    } else {
+      setEndlessSave(snapshot);
+      await Storage.saveEndlessGame(snapshot);
+    }
   };
 
-  // Run finished (game over): drop the save so it can't be resumed
-  const handleEndlessEnded = async () => {
-    setEndlessSave(null);
+  // Run finished: drop the save so it can't be resumed
+  const handleCheckpointEnded = async () => {
     setResumeSnapshot(null);
-    await Storage.clearEndlessGame();
+    if (gameMode === GameMode.CLASSIC) {
+      setClassicSave(null);
+      await Storage.clearClassicRun();
+    } else {
+      setEndlessSave(null);
+      await Storage.clearEndlessGame();
+    }
   };
 
   const handleContinueGame = () => {
+    setResumeSnapshot(null);
     if (savedGame) {
       setStartLevel(savedGame.currentLevel);
       setStartScore(savedGame.totalScore);
@@ -141,6 +276,20 @@ export default function App() {
     setCurrentScreen('game');
   };
 
+  // Pick a Classic tray up exactly where it was left
+  const handleResumeClassic = () => {
+    if (!classicSave) {
+      handleContinueGame();
+      return;
+    }
+    setResumeSnapshot(classicSave);
+    setStartLevel(classicSave.stats.level);
+    // Restarting the tray begins it again with the score it started with
+    setStartScore(classicSave.runStart.initialScore);
+    setGameMode(GameMode.CLASSIC);
+    setCurrentScreen('game');
+  };
+
   const handleGameComplete = async (level: number, totalScore: number) => {
     const progress: SavedGameState = {
       currentLevel: level + 1,
@@ -157,17 +306,72 @@ export default function App() {
     await Storage.saveHighScores(highScores);
   };
 
+  // Every finished run offers its input log; storage keeps the best few
+  const handleRunFinished = async (replay: ReplayLog) => {
+    if (replay.mode === GameMode.DAILY && dailyScored) {
+      setDailyScored(false);
+      await saveDailyResult({
+        date: dailyDate,
+        score: replay.finalScore,
+        cleared: replay.finalState === GameState.LEVEL_COMPLETE,
+        finished: true,
+      });
+    }
+    await Storage.saveReplay(replay);
+  };
+
+  const saveDailyResult = async (result: DailyResult) => {
+    setDailyHistory(prev => [...prev.filter(r => r.date !== result.date), result]);
+    await Storage.saveDailyResult(result);
+  };
+
+  // Today's board. The first start of the day is the scored attempt and is
+  // recorded straight away, so leaving part way still counts.
+  const handleStartDaily = async () => {
+    const today = dateKey();
+    const scored = !dailyHistory.some(r => r.date === today);
+    setDailyDate(today);
+    setDailyScored(scored);
+    setStartLevel(dailyLevel(today));
+    setStartScore(0);
+    setGameMode(GameMode.DAILY);
+    setCurrentScreen('game');
+    if (scored) await saveDailyResult({ date: today, score: 0, cleared: false, finished: false });
+  };
+
+  const handleWatchReplay = (replay: ReplayLog) => {
+    setWatchedReplay(replay);
+    setCurrentScreen('replay');
+  };
+
+  // Race a saved run: same mode, level, seed and speed as the recording
+  const handleRaceReplay = (replay: ReplayLog) => {
+    setGhostReplay(replay);
+    setActivePuzzle(replay.puzzle ?? null);
+    setPlayTesting(false);
+    setResumeSnapshot(null);
+    setStartLevel(replay.level);
+    setStartScore(replay.initialScore);
+    setGameMode(replay.puzzle ? GameMode.PUZZLE : replay.mode);
+    setCurrentScreen('game');
+  };
+
   const handleSettingsChange = async (newSettings: GameSettings) => {
     setSettings(newSettings);
     await Storage.saveSettings(newSettings);
   };
 
   const handleBackToMenu = () => {
+    setGhostReplay(null);
+    setDailyScored(false);
     setCurrentScreen('menu');
   };
 
   if (!isReady) return <LoadingScreen />;
 
+  const colorStyle = { palette: settings.colorPalette, symbols: settings.colorSymbols };
+  const gameSpeed = ghostReplay?.speedSetting ?? (gameMode === GameMode.DAILY ? DAILY_SPEED : settings.speedSetting);
+
   return (
     <View style={styles.container}>
       <StatusBar style="light" />
@@ -178,32 +382,98 @@ export default function App() {
           onStartEndless={handleStartEndless}
           onResumeEndless={handleResumeEndless}
           onContinueGame={handleContinueGame}
+          onResumeClassic={handleResumeClassic}
           onOpenSettings={() => setCurrentScreen('settings')}
           onOpenLevels={handlePlay}
           onOpenTutorial={() => setCurrentScreen('tutorial')}
           onOpenStats={() => setCurrentScreen('stats')}
+          onOpenEditor={() => setCurrentScreen('editor')}
+          onStartVersus={() => setCurrentScreen('versus')}
+          onStartDaily={handleStartDaily}
+          onStartTimeAttack={handleStartTimeAttack}
+          onStartSprint={handleStartSprint}
+          onStartExpert={handleStartExpert}
+          dailyStatus={{
+            today: dailyHistory.find(r => r.date === dateKey()) ?? null,
+            streak: dailyStreak(dailyHistory),
+          }}
           hasSavedGame={savedGame !== null}
           savedLevel={savedGame?.currentLevel}
+          classicTray={classicSave?.stats.level ?? null}
           hasEndlessSave={endlessSave !== null}
-          endlessWave={endlessSave?.wave}
+          endlessWave={endlessSave?.stats.level}
           reducedMotion={settings.reducedMotion}
         />
       )}
-      {currentScreen === 'levels' && <LevelSelectScreen unlockedLevel={savedGame?.currentLevel ?? 1} onSelectLevel={handleSelectLevel} onBack={handleBackToMenu} />}
+      {currentScreen === 'levels' && (
+        <LevelSelectScreen
+          unlockedLevel={savedGame?.currentLevel ?? 1}
+          onSelectLevel={handleSelectLevel}
+          puzzlePacks={
+            customPuzzles.length > 0
+              ? [...PUZZLE_PACKS, { id: 'custom', name: 'My puzzles', puzzles: customPuzzles }]
+              : PUZZLE_PACKS
+          }
+          solvedPuzzles={solvedPuzzles}
+          onSelectPuzzle={handleSelectPuzzle}
+          onBack={handleBackToMenu}
+        />
+      )}
       {currentScreen === 'tutorial' && <TutorialScreen onComplete={handleTutorialComplete} onBack={handleBackToMenu} reducedMotion={settings.reducedMotion} />}
-      {currentScreen === 'stats' && <StatsScreen onBack={handleBackToMenu} />}
+      {currentScreen === 'stats' && <StatsScreen onBack={handleBackToMenu} onWatchReplay={handleWatchReplay} onRaceReplay={handleRaceReplay} />}
+      {currentScreen === 'replay' && watchedReplay && (
+        <ReplayScreen replay={watchedReplay} onBack={() => setCurrentScreen('stats')} reducedMotion={settings.reducedMotion} colorStyle={colorStyle} />
+      )}
+      {currentScreen === 'editor' && (
+        <EditorScreen
+          initialPuzzle={editorDraft}
+          savedPuzzles={customPuzzles}
+          onPlayTest={handlePlayTest}
+          onSave={handleSaveCustomPuzzle}
+          onDelete={handleDeleteCustomPuzzle}
+          onBack={handleBackToMenu}
+          colorStyle={colorStyle}
+        />
+      )}
+      {currentScreen === 'versus' && (
+        <VersusScreen
+          speedSetting={settings.speedSetting}
+          reducedMotion={settings.reducedMotion}
+          landingGhost={settings.landingGhost}
+          colorStyle={colorStyle}
+          keyBindings={settings.keyBindings}
+          keyRepeat={settings.keyRepeat}
+          onBackToMenu={handleBackToMenu}
+        />
+      )}
       {currentScreen === 'game' && (
         <GameScreen
           level={startLevel}
-          speedSetting={settings.speedSetting}
+          speedSetting={gameSpeed}
           gameMode={gameMode}
-          endlessSnapshot={gameMode === GameMode.ENDLESS ? resumeSnapshot : null}
-          onBackToMenu={handleBackToMenu}
+          seed={gameMode === GameMode.DAILY ? dailySeed(dailyDate) : undefined}
+          boardSize={gameMode === GameMode.SPRINT ? SPRINT_BOARD_SIZE : undefined}
+          colorCount={gameMode === GameMode.EXPERT ? EXPERT_COLOR_COUNT : undefined}
+          onRunRestarted={() => setDailyScored(false)}
+          resumeSnapshot={resumeSnapshot?.mode === gameMode ? resumeSnapshot : null}
+          puzzle={gameMode === GameMode.PUZZLE ? activePuzzle : null}
+          onPuzzleSolved={playTesting ? undefined : handlePuzzleSolved}
+          onBackToMenu={playTesting ? () => setCurrentScreen('editor') : handleBackToMenu}
           onGameComplete={handleGameComplete}
-          onEndlessCheckpoint={handleEndlessCheckpoint}
-          onEndlessEnded={handleEndlessEnded}
+          onCheckpoint={handleCheckpoint}
+          onCheckpointEnded={handleCheckpointEnded}
+          onRunFinished={handleRunFinished}
           savedTotalScore={startScore}
           reducedMotion={settings.reducedMotion}
+          hintsEnabled={settings.hintsEnabled}
+          landingGhost={settings.landingGhost}
+          webNarration={settings.webNarration}
+          colorStyle={colorStyle}
+          keyBindings={settings.keyBindings}
+          keyRepeat={settings.keyRepeat}
+          ghost={ghostReplay}
+          sprintBest={gameMode === GameMode.SPRINT ? sprintBests[gameSpeed] ?? null : null}
+          onSprintCleared={record => handleSprintCleared(gameSpeed, record)}
         />
       )}
       {currentScreen === 'settings' && (
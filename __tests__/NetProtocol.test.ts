@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { NetMessage, encodeNetMessage, parseNetMessage } from '../src/game/versus/NetProtocol';
+import { Color, Direction } from '../src/game/utils/constants';
+import { SpeedSetting } from '../src/game/utils/types';
+
+describe('parseNetMessage', () => {
+  it('reads back every message it encodes', () => {
+    const messages: NetMessage[] = [
+      { type: 'join', room: 'lobby', version: 2 },
+      { type: 'matched', player: 1 },
+      { type: 'peerLeft' },
+      { type: 'error', reason: 'full' },
+      { type: 'start', seed: 123, level: 4, speedSetting: SpeedSetting.HIGH },
+      {
+        type: 'input',
+        tick: 9,
+        commands: [
+          { type: 'move', direction: Direction.LEFT },
+          { type: 'rotate', counterClockwise: true },
+          { type: 'select', pillId: 'pill-1' },
+          { type: 'drag', translationX: 1.5, translationY: 0 },
+          { type: 'drop' },
+        ],
+      },
+      { type: 'garbage', tick: 40, colors: [Color.RED, Color.BLUE] },
+      { type: 'topOut', tick: 41 },
+    ];
+    messages.forEach(message => expect(parseNetMessage(encodeNetMessage(message))).toEqual(message));
+  });
+
+  it('drops frames that are not messages', () => {
+    expect(parseNetMessage('{')).toBeNull();
+    expect(parseNetMessage('[]')).toBeNull();
+    expect(parseNetMessage(JSON.stringify({ type: 'hello' }))).toBeNull();
+    expect(parseNetMessage(JSON.stringify({ type: 'matched', player: 2 }))).toBeNull();
+    expect(parseNetMessage(JSON.stringify({ type: 'garbage', tick: -1, colors: [] }))).toBeNull();
+    expect(parseNetMessage(JSON.stringify({ type: 'garbage', tick: 1, colors: ['PINK'] }))).toBeNull();
+  });
+
+  it('refuses inputs a peer may not send', () => {
+    const input = (command: unknown) => parseNetMessage(JSON.stringify({ type: 'input', tick: 5, commands: [command] }));
+    expect(input({ type: 'pause' })).toBeNull();
+    expect(input({ type: 'resume' })).toBeNull();
+    expect(input({ type: 'garbage', colors: [Color.RED] })).toBeNull();
+    expect(input({ type: 'move', direction: 'UP' })).toBeNull();
+    expect(input({ type: 'select' })).toBeNull();
+    expect(input({ type: 'hint' })).not.toBeNull();
+  });
+});
@@ -0,0 +1,190 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { Autoplayer } from '../src/game/ai/Autoplayer';
+import { INPUT_DELAY_TICKS, NetSessionStatus, NetVersusSession } from '../src/game/versus/NetVersusSession';
+import { NET_PROTOCOL_VERSION, NetMessage, encodeNetMessage, parseNetMessage } from '../src/game/versus/NetProtocol';
+import { TransportHandlers, VersusTransport } from '../src/game/versus/Transport';
+import { Color, Direction, FIXED_TIMESTEP_MS } from '../src/game/utils/constants';
+import { SpeedSetting } from '../src/game/utils/types';
+
+// An in-memory relay: pairs the first two clients in a room and forwards
+// everything else between them, through the wire encoding, one delivery
+// at a time when flushed
+class LoopbackRelay {
+  private queue: Array<() => void> = [];
+  private rooms = new Map<string, LoopbackTransport[]>();
+  // Lets a test rewrite a message on its way to the peer
+  tamper: (message: NetMessage, from: LoopbackTransport) => NetMessage = message => message;
+
+  connect(): LoopbackTransport {
+    const transport = new LoopbackTransport(this);
+    this.queue.push(() => transport.handlers.onOpen?.());
+    return transport;
+  }
+
+  receive(from: LoopbackTransport, message: NetMessage): void {
+    const wired = parseNetMessage(encodeNetMessage(message));
+    if (!wired) throw new Error(`Unparseable message ${JSON.stringify(message)}`);
+    if (wired.type === 'join') {
+      const room = [...(this.rooms.get(wired.room) ?? []), from];
+      this.rooms.set(wired.room, room);
+      if (room.length === 2) room.forEach((client, player) => this.deliver(client, { type: 'matched', player: player === 0 ? 0 : 1 }));
+      return;
+    }
+    const peer = this.peerOf(from);
+    if (peer) this.deliver(peer, this.tamper(wired, from));
+  }
+
+  leave(from: LoopbackTransport): void {
+    const peer = this.peerOf(from);
+    if (peer) this.deliver(peer, { type: 'peerLeft' });
+  }
+
+  flush(): void {
+    while (this.queue.length > 0) this.queue.shift()!();
+  }
+
+  private peerOf(client: LoopbackTransport): LoopbackTransport | undefined {
+    const room = [...this.rooms.values()].find(members => members.includes(client));
+    return room?.find(member => member !== client);
+  }
+
+  private deliver(to: LoopbackTransport, message: NetMessage): void {
+    this.queue.push(() => {
+      if (!to.closed) to.handlers.onMessage?.(message);
+    });
+  }
+}
+
+class LoopbackTransport implements VersusTransport {
+  handlers: TransportHandlers = {};
+  closed = false;
+  sent: NetMessage[] = [];
+
+  constructor(private relay: LoopbackRelay) {}
+
+  send(message: NetMessage): void {
+    if (this.closed) return;
+    this.sent.push(message);
+    this.relay.receive(this, message);
+  }
+
+  setHandlers(handlers: TransportHandlers): void {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  close(): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.relay.leave(this);
+  }
+}
+
+const HOST_SETTINGS = { level: 6, speedSetting: SpeedSetting.HIGH };
+
+const pair = (relay: LoopbackRelay) => {
+  const statuses: [NetSessionStatus[], NetSessionStatus[]] = [[], []];
+  const transports = [relay.connect(), relay.connect()];
+  const sessions = transports.map(
+    (transport, i) => new NetVersusSession(transport, 'room', HOST_SETTINGS, undefined, status => statuses[i].push(status))
+  );
+  relay.flush();
+  return { sessions, transports, statuses };
+};
+
+// Both clients run in real time, each with a bot steering its own board
+// through the lockstep input API, until the match is decided or ends
+const playOnline = (relay: LoopbackRelay, sessions: NetVersusSession[], maxFrames: number): void => {
+  const bots = sessions.map(() => new Autoplayer(6));
+  bots.forEach(bot => bot.reset(0));
+  for (let frame = 0; frame < maxFrames; frame++) {
+    if (sessions.every(session => session.match.getOutcome() || session.getStatus().phase === 'ended')) return;
+    sessions.forEach((session, i) => {
+      if (session.getStatus().phase !== 'playing') return;
+      bots[i].act(session.match.engines[session.getPlayer()]);
+      session.update(FIXED_TIMESTEP_MS);
+    });
+    relay.flush();
+  }
+};
+
+describe('NetVersusSession', () => {
+  beforeEach(() => {
+    // The host's seed comes from Math.random
+    vi.spyOn(Math, 'random').mockReturnValue(0.3);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('pairs two clients on the same seed, the first one hosting', () => {
+    const relay = new LoopbackRelay();
+    const { sessions, transports, statuses } = pair(relay);
+
+    expect(transports[0].sent[0]).toEqual({ type: 'join', room: 'room', version: NET_PROTOCOL_VERSION });
+    expect(statuses[0].map(status => status.phase)).toEqual(['waiting', 'playing']);
+    expect(sessions.map(session => session.getPlayer())).toEqual([0, 1]);
+    expect(sessions[1].match.getSeed()).toBe(sessions[0].match.getSeed());
+  });
+
+  it('holds a key press back for the input delay, on both clients alike', () => {
+    const relay = new LoopbackRelay();
+    const { sessions } = pair(relay);
+    const [host, guest] = sessions;
+    const pieceX = () => host.match.engines[0].getAllFallingPills()[0].position.x;
+    const startX = pieceX();
+
+    host.match.engines[0].movePill(Direction.LEFT);
+    expect(pieceX()).toBe(startX);
+    for (let i = 0; i < INPUT_DELAY_TICKS + 1; i++) {
+      sessions.forEach(session => session.update(FIXED_TIMESTEP_MS));
+      relay.flush();
+    }
+    expect(pieceX()).toBe(startX - 1);
+    expect(guest.match.engines[0].getAllFallingPills()[0].position.x).toBe(startX - 1);
+  });
+
+  it('stalls rather than stepping past inputs the peer has not sent', () => {
+    const relay = new LoopbackRelay();
+    const { sessions } = pair(relay);
+    const [host] = sessions;
+    for (let i = 0; i < INPUT_DELAY_TICKS + 3; i++) host.update(FIXED_TIMESTEP_MS);
+    expect(host.isStalled()).toBe(true);
+    expect(host.match.engines[0].getTick()).toBe(INPUT_DELAY_TICKS);
+  });
+
+  it('keeps both copies of both boards identical through a whole match', () => {
+    const relay = new LoopbackRelay();
+    const { sessions } = pair(relay);
+    playOnline(relay, sessions, 40_000);
+
+    const [host, guest] = sessions;
+    expect(host.match.getOutcome()).not.toBeNull();
+    expect(guest.match.getOutcome()).toEqual(host.match.getOutcome());
+    expect(sessions.map(session => session.getStatus().phase)).toEqual(['playing', 'playing']);
+    host.match.engines.forEach((engine, p) => {
+      expect(guest.match.engines[p].getStats()).toEqual(engine.getStats());
+      expect(guest.match.engines[p].getBoard().cells).toEqual(engine.getBoard().cells);
+    });
+  });
+
+  it('ends the match when the boards fall out of sync', () => {
+    const relay = new LoopbackRelay();
+    // The guest's first garbage report claims different colors than the
+    // host's copy of its board will send
+    let tampered = false;
+    relay.tamper = message => {
+      if (message.type !== 'garbage' || tampered) return message;
+      tampered = true;
+      return { ...message, colors: [...message.colors, Color.RED] };
+    };
+    const { sessions, transports, statuses } = pair(relay);
+    playOnline(relay, sessions, 40_000);
+
+    expect(tampered).toBe(true);
+    const endings = statuses.map(list => list.find(status => status.phase === 'ended'));
+    expect(endings).toContainEqual({ phase: 'ended', reason: 'The boards fell out of sync' });
+    expect(endings).toContainEqual({ phase: 'ended', reason: 'Your opponent left' });
+    expect(transports.some(transport => transport.closed)).toBe(true);
+  });
+});
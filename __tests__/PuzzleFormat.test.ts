@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { Board } from '../src/game/entities/Board';
+import {
+  PUZZLE_FORMAT_VERSION,
+  applyPuzzleBoard,
+  decodePuzzle,
+  encodeBoard,
+  encodePuzzle,
+  parsePuzzle,
+} from '../src/game/puzzles/PuzzleFormat';
+import { PUZZLE_PACKS, PUZZLE_PACK_ERRORS } from '../src/game/puzzles';
+import { BOARD_HEIGHT, CellType, Color } from '../src/game/utils/constants';
+import { PuzzleLevel } from '../src/game/utils/types';
+
+const emptyRows = (): string[] => Array.from({ length: BOARD_HEIGHT }, () => '........');
+
+const withRows = (rows: Record<number, string>): string[] =>
+  emptyRows().map((row, y) => rows[y] ?? row);
+
+const puzzle = (overrides: Record<string, unknown> = {}): Record<string, unknown> => ({
+  version: PUZZLE_FORMAT_VERSION,
+  id: 'test-01',
+  name: 'Test & Check',
+  board: withRows({ 14: '...B....', 15: '.ybR.yr.' }),
+  capsules: [
+    [Color.RED, Color.BLUE],
+    [Color.YELLOW, Color.YELLOW],
+  ],
+  moveLimit: 4,
+  goals: [{ type: 'clearGerms' }, { type: 'score', target: 500 }],
+  ...overrides,
+});
+
+const errorsFor = (data: unknown): string[] => {
+  const result = parsePuzzle(data);
+  return result.ok ? [] : result.errors;
+};
+
+describe('parsePuzzle', () => {
+  it('accepts a well-formed puzzle', () => {
+    const result = parsePuzzle(puzzle());
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(result.puzzle.moveLimit).toBe(4);
+  });
+
+  it('accepts every bundled puzzle', () => {
+    const count = PUZZLE_PACKS.reduce((sum, pack) => sum + pack.puzzles.length, 0);
+    expect(PUZZLE_PACK_ERRORS).toEqual([]);
+    expect(count).toBeGreaterThan(0);
+    PUZZLE_PACKS.forEach(pack => pack.puzzles.forEach(level => expect(errorsFor(level)).toEqual([])));
+  });
+
+  it('turns away non-objects and other versions outright', () => {
+    expect(errorsFor(null)).toEqual(['Puzzle must be a JSON object']);
+    expect(errorsFor([puzzle()])).toEqual(['Puzzle must be a JSON object']);
+    expect(errorsFor(puzzle({ version: 2 }))).toEqual(['Unsupported puzzle version 2 (expected 1)']);
+  });
+
+  it('reports every problem at once', () => {
+    const errors = errorsFor(
+      puzzle({
+        id: '',
+        board: withRows({ 3: '...x....', 15: '..r' }),
+        capsules: [[Color.RED]],
+        moveLimit: 0,
+        goals: [{ type: 'clearColor', color: 'PINK' }, { type: 'score', target: -5 }, { type: 'win' }, 7],
+      })
+    );
+    expect(errors).toEqual([
+      'id must be a non-empty string',
+      "board (3, 3) has unknown cell 'x'",
+      'board row 15 must be 8 characters',
+      'capsules[0] must be a pair of colors',
+      'moveLimit must be a positive integer when present',
+      'goals[0].color must be one of RED, BLUE, YELLOW',
+      'goals[1].target must be a positive integer',
+      'goals[2].type must be clearGerms, clearColor or score',
+      'goals[3] must be an object',
+    ]);
+  });
+
+  it('only allows the colors the board legend can spell', () => {
+    expect(errorsFor(puzzle({ capsules: [[Color.GREEN, Color.RED]] }))).toEqual(['capsules[0] must be a pair of colors']);
+    expect(errorsFor(puzzle({ goals: [{ type: 'clearColor', color: Color.PURPLE }] }))).toEqual([
+      'goals[0].color must be one of RED, BLUE, YELLOW',
+    ]);
+  });
+
+  it('holds boards to the rules the engine relies on', () => {
+    expect(errorsFor(puzzle({ board: withRows({ 0: '...r....' }) }))).toContain(
+      'the entry cells at the top center must be empty'
+    );
+    expect(errorsFor(puzzle({ board: withRows({ 15: 'rrrr....' }) }))).toContain('board starts with four or more in a row');
+    expect(errorsFor(puzzle({ board: withRows({ 10: '..B.....', 15: '..r.....' }) }))).toContain(
+      'capsule half at (2, 10) has nothing under it'
+    );
+    expect(errorsFor(puzzle({ board: withRows({ 15: '..R.....' }) }))).toContain('board needs at least one microbe');
+  });
+
+  it('keeps only the fields of the format', () => {
+    const result = parsePuzzle(puzzle({ author: 'someone', moveLimit: undefined }));
+    expect(result.ok).toBe(true);
+    if (result.ok) expect(Object.keys(result.puzzle).sort()).toEqual(['board', 'capsules', 'goals', 'id', 'name', 'version']);
+  });
+});
+
+describe('board encoding', () => {
+  it('round-trips a puzzle board through a live board', () => {
+    const level = puzzle() as unknown as PuzzleLevel;
+    const board = new Board();
+    applyPuzzleBoard(board, level);
+    expect(board.getCell(1, 15)).toMatchObject({ type: CellType.VIRUS, color: Color.YELLOW });
+    expect(board.getCell(3, 14)).toMatchObject({ type: CellType.PILL, color: Color.BLUE });
+    expect(encodeBoard(board)).toEqual(level.board);
+  });
+});
+
+describe('share codes', () => {
+  it('decode back to the same puzzle', () => {
+    const result = parsePuzzle(puzzle({ goals: [{ type: 'clearColor', color: Color.BLUE }, { type: 'score', target: 900 }] }));
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+
+    const code = encodePuzzle(result.puzzle);
+    expect(code.startsWith('PP1|test-01|Test%20%26%20Check|')).toBe(true);
+    expect(code).not.toContain('\n');
+    expect(decodePuzzle(`  ${code}\n`)).toEqual({ ok: true, puzzle: result.puzzle });
+  });
+
+  it('leave the move limit blank when there is none', () => {
+    const result = parsePuzzle(puzzle({ moveLimit: undefined }));
+    if (!result.ok) throw new Error(result.errors.join('\n'));
+    const code = encodePuzzle(result.puzzle);
+    expect(code.split('|')[5]).toBe('');
+    expect(decodePuzzle(code)).toEqual({ ok: true, puzzle: result.puzzle });
+  });
+
+  it('turn damaged codes into errors', () => {
+    const result = parsePuzzle(puzzle());
+    if (!result.ok) throw new Error(result.errors.join('\n'));
+    const code = encodePuzzle(result.puzzle);
+
+    expect(decodePuzzle('hello')).toEqual({ ok: false, errors: ['Not a puzzle code'] });
+    expect(decodePuzzle(code.replace('PP1', 'PP9'))).toEqual({ ok: false, errors: ['Not a puzzle code'] });
+    expect(decodePuzzle(code.replace('test-01', 'test%E0%A4%A'))).toEqual({ ok: false, errors: ['Puzzle code is damaged'] });
+    expect(decodePuzzle(code.replace('|RBYY|', '|RBGY|')).ok).toBe(false);
+    expect(decodePuzzle(code.replace(/\|[^|]*$/, '|Q')).ok).toBe(false);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from '../src/game/GameEngine';
+import { Autoplayer } from '../src/game/ai/Autoplayer';
+import { ReplayPlayer, isReplayLog } from '../src/game/replay/ReplayPlayer';
+import { Direction, GameState } from '../src/game/utils/constants';
+import { SeededRandom } from '../src/game/utils/random';
+import { GameMode, SpeedSetting } from '../src/game/utils/types';
+
+const boardOf = (engine: GameEngine): string =>
+  engine
+    .getBoard()
+    .cells.map(row => row.map(cell => `${cell.type}:${cell.color ?? ''}`).join(','))
+    .join('\n');
+
+// Mash the keyboard API at random, switching between airborne pieces by id
+// whenever there's more than one
+const playRandomly = (engine: GameEngine, inputSeed: number, maxTicks: number): void => {
+  const rng = new SeededRandom(inputSeed);
+  for (let i = 0; i < maxTicks && engine.getGameState() === GameState.PLAYING; i++) {
+    engine.step();
+    const roll = rng.next();
+    if (roll < 0.03) engine.rotatePill();
+    else if (roll < 0.06) engine.movePill(Direction.LEFT);
+    else if (roll < 0.09) engine.movePill(Direction.RIGHT);
+    else if (roll < 0.1) engine.dropPill();
+    else if (roll < 0.13) {
+      const pieces = engine.getAllFallingPills().filter(p => p.isActive && p.isUserControllable);
+      if (pieces.length > 0) engine.selectPillById(rng.pick(pieces).id);
+    }
+  }
+};
+
+describe('ReplayPlayer', () => {
+  it('reproduces a Classic run from its input log', () => {
+    const engine = new GameEngine();
+    engine.startGame(3, SpeedSetting.MEDIUM, 0, GameMode.CLASSIC, 11);
+    playRandomly(engine, 1, 6000);
+
+    const replay = new ReplayPlayer(engine.getReplay()!);
+    expect(replay.runToEnd()).toBe(true);
+    expect(boardOf(replay.getEngine())).toBe(boardOf(engine));
+  });
+
+  it('reproduces an Endless run that steers loose halves by id', () => {
+    const engine = new GameEngine();
+    engine.startGame(5, SpeedSetting.HIGH, 0, GameMode.ENDLESS, 42);
+    playRandomly(engine, 2, 12000);
+
+    const log = engine.getReplay()!;
+    expect(log.commands.some(entry => entry.command.type === 'select')).toBe(true);
+    const replay = new ReplayPlayer(log);
+    expect(replay.runToEnd()).toBe(true);
+    expect(boardOf(replay.getEngine())).toBe(boardOf(engine));
+  });
+
+  it('reproduces an autoplayer run, which switches pieces as it goes', () => {
+    const engine = new GameEngine();
+    engine.startGame(4, SpeedSetting.MEDIUM, 0, GameMode.ENDLESS, 5);
+    const bot = new Autoplayer(8);
+    bot.reset(5);
+    for (let i = 0; i < 4000 && engine.getGameState() === GameState.PLAYING; i++) {
+      bot.act(engine);
+      engine.step();
+    }
+
+    const log = engine.getReplay()!;
+    expect(log.commands.filter(entry => entry.command.type === 'select').length).toBeGreaterThan(1);
+    const replay = new ReplayPlayer(log);
+    expect(replay.runToEnd()).toBe(true);
+    expect(boardOf(replay.getEngine())).toBe(boardOf(engine));
+  });
+
+  it('logs a selection only when it changes which piece is steered', () => {
+    const engine = new GameEngine();
+    engine.startGame(1, SpeedSetting.MEDIUM, 0, GameMode.CLASSIC, 7);
+    const [pill] = engine.getAllFallingPills();
+
+    expect(engine.selectPillById(pill.id)).toBe(true);
+    expect(engine.selectPillById(pill.id)).toBe(true);
+    expect(engine.selectPillById('no-such-piece')).toBe(false);
+
+    const selects = engine.getReplay()!.commands.filter(entry => entry.command.type === 'select');
+    expect(selects.map(entry => entry.command)).toEqual([{ type: 'select', pillId: pill.id }]);
+  });
+
+  it('logs nothing pressed while the game is paused', () => {
+    const engine = new GameEngine();
+    engine.startGame(1, SpeedSetting.MEDIUM, 0, GameMode.CLASSIC, 7);
+    const [pill] = engine.getAllFallingPills();
+    engine.pause();
+
+    engine.setFastDrop(true);
+    engine.switchToNextPill();
+    expect(engine.selectPillById(pill.id)).toBe(false);
+    expect(engine.getReplay()!.commands.map(entry => entry.command.type)).toEqual(['pause']);
+  });
+
+  it('plays a replay back in real time to the same tick', () => {
+    const engine = new GameEngine();
+    engine.startGame(2, SpeedSetting.LOW, 0, GameMode.CLASSIC, 3);
+    playRandomly(engine, 3, 2000);
+    engine.pause();
+
+    const replay = new ReplayPlayer(engine.getReplay()!);
+    replay.start();
+    while (!replay.isFinished()) replay.advance(50, 4);
+    expect(replay.getEngine().getTick()).toBe(engine.getTick());
+    expect(replay.getEngine().getStats().score).toBe(engine.getStats().score);
+  });
+
+  it('checks a saved log through JSON before trusting it', () => {
+    const engine = new GameEngine();
+    engine.startGame(2, SpeedSetting.LOW, 0, GameMode.CLASSIC, 5);
+    playRandomly(engine, 5, 500);
+    const saved = JSON.parse(JSON.stringify(engine.getReplay()));
+    expect(isReplayLog(saved)).toBe(true);
+
+    expect(isReplayLog(null)).toBe(false);
+    expect(isReplayLog({ ...saved, mode: 'ARCADE' })).toBe(false);
+    expect(isReplayLog({ ...saved, seed: -1 })).toBe(false);
+    expect(isReplayLog({ ...saved, commands: [{ tick: 1, command: { type: 'move', direction: 'UP' } }] })).toBe(false);
+    expect(isReplayLog({ ...saved, puzzle: { id: 'broken' } })).toBe(false);
+  });
+});
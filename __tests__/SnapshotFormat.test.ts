@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { GameEngine } from '../src/game/GameEngine';
+import { Autoplayer } from '../src/game/ai/Autoplayer';
+import { ENGINE_SNAPSHOT_VERSION, migrateSnapshot } from '../src/game/snapshot/SnapshotFormat';
+import { CellType, Color, Direction, GameState } from '../src/game/utils/constants';
+import { EndlessSnapshot, EngineSnapshot, GameMode, SpeedSetting } from '../src/game/utils/types';
+
+// A save as it comes back from storage
+const saved = (engine: GameEngine): unknown => JSON.parse(JSON.stringify(engine.serialize()));
+
+const withoutStamp = (snapshot: EngineSnapshot): string => JSON.stringify({ ...snapshot, lastPlayed: '' });
+
+const playFor = (engine: GameEngine, bot: Autoplayer, ticks: number): void => {
+  for (let i = 0; i < ticks && engine.getGameState() === GameState.PLAYING; i++) {
+    bot.act(engine);
+    engine.step();
+  }
+};
+
+const endlessRun = (ticks: number): GameEngine => {
+  const engine = new GameEngine();
+  engine.startGame(4, SpeedSetting.MEDIUM, 0, GameMode.ENDLESS, 21);
+  const bot = new Autoplayer(8);
+  bot.reset(21);
+  playFor(engine, bot, ticks);
+  engine.update(9);
+  return engine;
+};
+
+// A valid save with one field swapped out
+const tampered = (patch: Record<string, unknown>): unknown => ({ ...(saved(endlessRun(600)) as object), ...patch });
+
+describe('migrateSnapshot', () => {
+  it('restores a run that plays on exactly like the original', () => {
+    const original = endlessRun(1500);
+    const restored = new GameEngine();
+    restored.deserialize(migrateSnapshot(saved(original))!);
+    expect(withoutStamp(restored.serialize())).toBe(withoutStamp(original.serialize()));
+
+    const botA = new Autoplayer(8);
+    const botB = new Autoplayer(8);
+    playFor(original, botA, 3000);
+    playFor(restored, botB, 3000);
+    expect(restored.getStats()).toEqual(original.getStats());
+    expect(restored.getTick()).toBe(original.getTick());
+  });
+
+  it('stamps a save with the time it was taken', () => {
+    const before = Date.now();
+    const { lastPlayed } = endlessRun(0).serialize();
+    expect(Date.parse(lastPlayed)).toBeGreaterThanOrEqual(before - 1000);
+    expect(Date.parse(lastPlayed)).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('keeps a paused run paused', () => {
+    const engine = new GameEngine();
+    engine.startGame(2, SpeedSetting.LOW, 0, GameMode.CLASSIC, 9);
+    for (let i = 0; i < 200; i++) engine.step();
+    engine.movePill(Direction.LEFT);
+    engine.pause();
+
+    const restored = new GameEngine();
+    restored.deserialize(migrateSnapshot(saved(engine))!);
+    expect(restored.getGameState()).toBe(GameState.PAUSED);
+  });
+
+  it('brings a version 1 Endless save up to date', () => {
+    const v1: EndlessSnapshot = {
+      version: 1,
+      cells: [
+        { x: 2, y: 12, type: CellType.VIRUS, color: Color.RED },
+        { x: 5, y: 15, type: CellType.PILL, color: Color.BLUE, pillId: 'old' },
+      ],
+      score: 1234,
+      wave: 4,
+      capsulesPlaced: 17,
+      speedSetting: SpeedSetting.HIGH,
+      nextColors: [Color.YELLOW, Color.BLUE],
+      lastPlayed: '2024-05-01T10:00:00.000Z',
+    };
+    const snapshot = migrateSnapshot(v1)!;
+    expect(snapshot.version).toBe(ENGINE_SNAPSHOT_VERSION);
+    expect(snapshot.mode).toBe(GameMode.ENDLESS);
+    expect(snapshot.stats).toMatchObject({ score: 1234, level: 4, virusCount: 1, speedSetting: SpeedSetting.HIGH });
+    expect(snapshot.nextPiece?.colors).toEqual([Color.YELLOW, Color.BLUE]);
+    expect(snapshot.inputLog).toBeNull();
+
+    const engine = new GameEngine();
+    engine.deserialize(snapshot);
+    expect(engine.getGameState()).toBe(GameState.PLAYING);
+    expect(engine.getStats().score).toBe(1234);
+  });
+
+  it('turns away anything that is not a save', () => {
+    expect(migrateSnapshot(null)).toBeNull();
+    expect(migrateSnapshot('snapshot')).toBeNull();
+    expect(migrateSnapshot({ version: 1 })).toBeNull();
+    expect(migrateSnapshot({ version: 0 })).toBeNull();
+    expect(migrateSnapshot({ ...(saved(endlessRun(0)) as object), version: ENGINE_SNAPSHOT_VERSION + 1 })).toBeNull();
+  });
+
+  it.each([
+    ['a cell off the board', { cells: [{ x: 8, y: 0, type: CellType.VIRUS, color: Color.RED }] }],
+    ['two cells in one spot', {
+      cells: [
+        { x: 1, y: 10, type: CellType.VIRUS, color: Color.RED },
+        { x: 1, y: 10, type: CellType.VIRUS, color: Color.BLUE },
+      ],
+    }],
+    ['an empty board size', { boardSize: { width: 0, height: 16 } }],
+    ['an unknown speed', { stats: { ...endlessRun(0).getStats(), speedSetting: 'LUDICROUS' } }],
+    ['a capsule with one color', {
+      nextPiece: { ...endlessRun(0).serialize().nextPiece!, colors: [Color.RED] },
+    }],
+    ['a piece off the grid', {
+      pieces: [{ ...endlessRun(0).serialize().pieces[0], position: { x: 1.5, y: 2 } }],
+    }],
+    ['a capsule with no orientation', {
+      pieces: [{ ...endlessRun(0).serialize().pieces[0], orientation: null }],
+    }],
+    ['an unknown color in the palette', { palette: [Color.RED, 'ORANGE'] }],
+    ['no palette', { palette: [] }],
+    ['garbage that is not colors', { pendingGarbage: [1, 2] }],
+    ['splits that are not numbers', { splits: ['soon'] }],
+    ['a missing run start', { runStart: undefined }],
+    ['an unreadable input', { inputLog: [{ tick: 3, command: { type: 'teleport' } }] }],
+    ['an input without a tick', { inputLog: [{ command: { type: 'drop' } }] }],
+    ['a broken puzzle', { puzzle: { version: 1, id: 'x' } }],
+  ])('rejects a save with %s', (_, patch) => {
+    expect(migrateSnapshot(tampered(patch))).toBeNull();
+  });
+});
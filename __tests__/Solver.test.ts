@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { Board } from '../src/game/entities/Board';
+import { landPlacement } from '../src/game/ai/PlacementSearch';
+import { PUZZLE_FORMAT_VERSION, applyPuzzleBoard, goalsMet } from '../src/game/puzzles/PuzzleFormat';
+import { solvePuzzle } from '../src/game/puzzles/Solver';
+import { PUZZLE_PACKS } from '../src/game/puzzles';
+import { BOARD_HEIGHT, Color } from '../src/game/utils/constants';
+import { PuzzleLevel } from '../src/game/utils/types';
+
+const level = (bottomRow: string, capsules: Array<[Color, Color]>, moveLimit: number): PuzzleLevel => ({
+  version: PUZZLE_FORMAT_VERSION,
+  id: 'solver-test',
+  name: 'Solver test',
+  board: Array.from({ length: BOARD_HEIGHT }, (_, y) => (y === BOARD_HEIGHT - 1 ? bottomRow : '........')),
+  capsules,
+  moveLimit,
+  goals: [{ type: 'clearGerms' }],
+});
+
+describe('solvePuzzle', () => {
+  it('finds a line of play for every bundled puzzle that really meets its goals', () => {
+    for (const puzzle of PUZZLE_PACKS.flatMap(pack => pack.puzzles)) {
+      const result = solvePuzzle(puzzle);
+      expect(result.status, puzzle.id).toBe('solved');
+      if (result.status !== 'solved') continue;
+
+      const board = new Board();
+      applyPuzzleBoard(board, puzzle);
+      let score = 0;
+      result.steps.forEach((step, i) => {
+        landPlacement(board, step.placement, `check-${i}`);
+        score += step.score;
+      });
+      expect(goalsMet(puzzle.goals, board, score), puzzle.id).toBe(true);
+      expect(result.steps.length).toBeLessThanOrEqual(puzzle.moveLimit ?? Infinity);
+    }
+  });
+
+  it('reports notFound when no modeled line works within the move limit', () => {
+    const result = solvePuzzle(level('..rr....', [[Color.BLUE, Color.BLUE]], 1));
+    expect(result.status).toBe('notFound');
+  });
+
+  it('reports unknown when the node budget runs out first', () => {
+    const puzzle = level('r.b.y.r.', [[Color.RED, Color.BLUE], [Color.YELLOW, Color.RED]], 6);
+    expect(solvePuzzle(puzzle, { maxNodes: 5 })).toEqual({ status: 'unknown', nodes: 5 });
+  });
+});
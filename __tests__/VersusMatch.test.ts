@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import { Autoplayer } from '../src/game/ai/Autoplayer';
+import { ReplayPlayer } from '../src/game/replay/ReplayPlayer';
+import { VersusMatch, garbageForLink } from '../src/game/versus/VersusMatch';
+import { Color } from '../src/game/utils/constants';
+import { SpeedSetting } from '../src/game/utils/types';
+
+// Both boards played by the autoplayer until the match is decided. Seed 2
+// decides within a couple of thousand ticks, with garbage sent both ways.
+const playOut = (seed: number, maxTicks: number, match: VersusMatch = new VersusMatch()): VersusMatch => {
+  match.start(6, SpeedSetting.HIGH, seed);
+  const bots = [new Autoplayer(4), new Autoplayer(12)];
+  bots.forEach(bot => bot.reset(seed));
+  for (let i = 0; i < maxTicks && !match.getOutcome(); i++) {
+    match.engines.forEach((engine, p) => bots[p].act(engine));
+    match.step();
+  }
+  return match;
+};
+
+describe('garbageForLink', () => {
+  it('sends nothing for a single clear', () => {
+    expect(garbageForLink(1, [Color.RED])).toEqual([]);
+  });
+
+  it('sends two halves for the second link and one for each after, up to four', () => {
+    expect(garbageForLink(2, [Color.RED, Color.BLUE])).toEqual([Color.RED, Color.BLUE]);
+    expect(garbageForLink(2, [Color.YELLOW])).toEqual([Color.YELLOW, Color.YELLOW]);
+    expect(garbageForLink(3, [Color.BLUE])).toEqual([Color.BLUE]);
+    expect(garbageForLink(4, [Color.RED])).toEqual([Color.RED]);
+    expect(garbageForLink(5, [Color.RED])).toEqual([]);
+  });
+
+  it('sends nothing without colors to follow', () => {
+    expect(garbageForLink(2, [])).toEqual([]);
+  });
+});
+
+describe('VersusMatch', () => {
+  it('starts both boards on the same germs and capsules', () => {
+    const match = new VersusMatch();
+    match.start(5, SpeedSetting.MEDIUM, 77);
+    const [one, two] = match.engines;
+    expect(one.getBoard().cells).toEqual(two.getBoard().cells);
+    expect(one.getNextPill()?.colors).toEqual(two.getNextPill()?.colors);
+  });
+
+  it("routes a chain's garbage to the other board", () => {
+    const sent: [Color[], Color[]] = [[], []];
+    const match = new VersusMatch();
+    match.engines.forEach((engine, p) =>
+      engine.events.on('chainStep', event => sent[p].push(...garbageForLink(event.combo, event.colors)))
+    );
+    playOut(2, 5000, match);
+
+    const received = match.engines.map(engine =>
+      engine.getReplay()!.commands.flatMap(entry => (entry.command.type === 'garbage' ? entry.command.colors : []))
+    );
+    expect(sent[0].length + sent[1].length).toBeGreaterThan(0);
+    expect(received[1]).toEqual(sent[0]);
+    expect(received[0]).toEqual(sent[1]);
+  });
+
+  it('drops garbage in along the top row as loose debris with the next capsule', () => {
+    const match = new VersusMatch();
+    match.start(3, SpeedSetting.MEDIUM, 5);
+    const [, two] = match.engines;
+    two.receiveGarbage([Color.RED, Color.BLUE, Color.BLUE]);
+
+    const before = two.getAllFallingPills().length;
+    for (let i = 0; i < 3000 && two.getPendingGarbage().length > 0; i++) match.step();
+    expect(two.getPendingGarbage()).toEqual([]);
+
+    const garbage = two.getAllFallingPills().filter(piece => piece.id.startsWith('garbage'));
+    expect(garbage).toHaveLength(3);
+    expect(two.getAllFallingPills().length).toBeGreaterThan(before);
+    garbage.forEach(piece => {
+      expect(piece.debris).toBe(true);
+      expect(piece.isUserControllable).toBe(false);
+    });
+  });
+
+  it('ignores garbage once a board is out of play', () => {
+    const match = new VersusMatch();
+    match.start(3, SpeedSetting.MEDIUM, 5);
+    const [one] = match.engines;
+    one.pause();
+    one.receiveGarbage([Color.RED]);
+    expect(one.getPendingGarbage()).toEqual([]);
+  });
+
+  it('decides the same match the same way every time', () => {
+    const first = playOut(2, 5000);
+    const second = playOut(2, 5000);
+    expect(first.getOutcome()).not.toBeNull();
+    expect(second.getOutcome()).toEqual(first.getOutcome());
+    first.engines.forEach((engine, p) => {
+      expect(second.engines[p].getStats()).toEqual(engine.getStats());
+      expect(second.engines[p].getTick()).toBe(engine.getTick());
+    });
+  });
+
+  it('replays each board, received garbage included, from its own log', () => {
+    const match = playOut(2, 5000);
+    expect(match.getOutcome()).not.toBeNull();
+    for (const engine of match.engines) {
+      const log = engine.getReplay()!;
+      const replay = new ReplayPlayer(log);
+      expect(replay.runToEnd()).toBe(true);
+      expect(replay.getEngine().getGameState()).toBe(engine.getGameState());
+    }
+    const received = match.engines.flatMap(engine => engine.getReplay()!.commands).filter(e => e.command.type === 'garbage');
+    expect(received.length).toBeGreaterThan(0);
+  });
+});
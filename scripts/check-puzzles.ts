@@ -0,0 +1,51 @@
+// Proves every bundled puzzle can be cleared within its move limit.
+//
+//   npm run check-puzzles
+//   npm run check-puzzles -- --max-nodes 100000 --verbose
+//
+// Runs the solver over each pack in PUZZLE_PACKS and prints one line per
+// puzzle (with the solution when --verbose is set). Exits non-zero if any
+// bundled puzzle fails to parse, has no solution the search can find, or
+// couldn't be settled within the node budget.
+import { parseArgs } from 'node:util';
+import { PUZZLE_PACKS, PUZZLE_PACK_ERRORS } from '../src/game/puzzles';
+import { describeStep, solvePuzzle } from '../src/game/puzzles/Solver';
+
+const { values } = parseArgs({
+  options: {
+    'max-nodes': { type: 'string', default: '20000' },
+    verbose: { type: 'boolean', default: false },
+  },
+});
+
+const maxNodes = Number(values['max-nodes']);
+if (!Number.isInteger(maxNodes) || maxNodes < 1) {
+  process.stderr.write('--max-nodes must be a positive integer\n');
+  process.exit(1);
+}
+
+let failures = 0;
+for (const error of PUZZLE_PACK_ERRORS) {
+  failures++;
+  process.stdout.write(`invalid  ${error}\n`);
+}
+for (const pack of PUZZLE_PACKS) {
+  for (const puzzle of pack.puzzles) {
+    const result = solvePuzzle(puzzle, { maxNodes });
+    const label = `${pack.id}/${puzzle.id} (${puzzle.name})`;
+    if (result.status === 'solved') {
+      process.stdout.write(`ok       ${label}: ${result.steps.length} capsules, ${result.nodes} nodes\n`);
+      if (values.verbose) {
+        result.steps.forEach((step, i) => process.stdout.write(`           ${describeStep(step, i)}\n`));
+      }
+    } else {
+      failures++;
+      process.stdout.write(`${result.status.padEnd(8)} ${label}: ${result.nodes} nodes\n`);
+    }
+  }
+}
+
+if (failures > 0) {
+  process.stderr.write(`${failures} puzzle(s) invalid or not proven solvable\n`);
+  process.exit(1);
+}
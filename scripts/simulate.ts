@@ -0,0 +1,109 @@
+// Headless balancing runs for DIFFICULTY_SETTINGS.
+//
+//   npm run simulate -- --games 2000 --mode ENDLESS --speed LOW,HIGH
+//   npm run simulate -- --mode CLASSIC --level 5 --format csv > runs.csv
+//
+// Plays many seeded games per speed setting with a bot (the scripted one by
+// default, or the placement-search Autoplayer with --bot ai) and prints
+// a JSON summary (survival time, waves, capsules, score distributions) or one
+// CSV row per game. Seeds are sequential from --seed, so a run is repeatable.
+import { writeFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { GameMode, SpeedSetting } from '../src/game/utils/types';
+import { DIFFICULTY_SETTINGS, FIXED_TIMESTEP_MS } from '../src/game/utils/constants';
+import { ScriptedBot, SimulationBot } from '../src/game/sim/ScriptedBot';
+import { Autoplayer } from '../src/game/ai/Autoplayer';
+import { runSimulation, summarize, toCsv, SimulationResult } from '../src/game/sim/Simulation';
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '500' },
+    mode: { type: 'string', default: GameMode.ENDLESS },
+    level: { type: 'string', default: '1' },
+    speed: { type: 'string', default: Object.values(SpeedSetting).join(',') },
+    seed: { type: 'string', default: '1' },
+    'max-minutes': { type: 'string', default: '30' },
+    reaction: { type: 'string', default: '10' },
+    mistakes: { type: 'string', default: '0.15' },
+    bot: { type: 'string', default: 'scripted' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const usage = `Usage: npm run simulate -- [options]
+  --games N          games per speed setting (default 500)
+  --mode M           ENDLESS or CLASSIC (default ENDLESS)
+  --level N          starting level / wave (default 1)
+  --speed LIST       comma-separated speed settings (default LOW,MEDIUM,HIGH)
+  --seed N           first seed; game i uses seed + i (default 1)
+  --max-minutes N    simulated time cap per game (default 30)
+  --bot B            scripted (human-like) or ai (placement search)
+  --reaction N       bot ticks between inputs (default 10)
+  --mistakes P       scripted bot chance of a random placement (default 0.15)
+  --format F         json (summary) or csv (one row per game)
+  --out FILE         write to FILE instead of stdout`;
+
+const fail = (message: string): never => {
+  process.stderr.write(`${message}\n\n${usage}\n`);
+  process.exit(1);
+};
+
+if (values.help) {
+  process.stdout.write(`${usage}\n`);
+  process.exit(0);
+}
+
+const games = Number(values.games);
+const level = Number(values.level);
+const firstSeed = Number(values.seed);
+const maxMinutes = Number(values['max-minutes']);
+const maxTicks = Math.ceil((maxMinutes * 60_000) / FIXED_TIMESTEP_MS);
+const reaction = Number(values.reaction);
+const mistakes = Number(values.mistakes);
+const mode = values.mode as GameMode;
+const speeds = values.speed!.split(',').map(s => s.trim().toUpperCase()) as SpeedSetting[];
+
+if (!Number.isInteger(games) || games < 1) fail('--games must be a positive integer');
+if (!Number.isInteger(level) || level < 1) fail('--level must be a positive integer');
+if (!Number.isFinite(maxMinutes) || maxMinutes <= 0) fail('--max-minutes must be a positive number');
+if (!Number.isInteger(reaction) || reaction < 0) fail('--reaction must be a non-negative integer');
+if (!Number.isFinite(mistakes) || mistakes < 0 || mistakes > 1) fail('--mistakes must be between 0 and 1');
+if (mode !== GameMode.ENDLESS && mode !== GameMode.CLASSIC) fail(`Unknown --mode ${values.mode}`);
+for (const speed of speeds) {
+  if (!Object.values(SpeedSetting).includes(speed)) fail(`Unknown --speed ${speed}`);
+}
+if (values.bot !== 'scripted' && values.bot !== 'ai') fail(`Unknown --bot ${values.bot}`);
+if (values.format !== 'json' && values.format !== 'csv') fail(`Unknown --format ${values.format}`);
+
+const bot: SimulationBot = values.bot === 'ai' ? new Autoplayer(reaction) : new ScriptedBot(reaction, mistakes);
+const results: SimulationResult[] = [];
+const summaries = speeds.map(speedSetting => {
+  const batch: SimulationResult[] = [];
+  for (let i = 0; i < games; i++) {
+    batch.push(runSimulation({ speedSetting, mode, level, seed: firstSeed + i, bot, maxTicks }));
+  }
+  process.stderr.write(`${speedSetting}: ${games} games done\n`);
+  results.push(...batch);
+  return summarize(speedSetting, batch);
+});
+
+const output =
+  values.format === 'csv'
+    ? toCsv(results)
+    : JSON.stringify(
+        {
+          options: { games, mode, level, firstSeed, maxTicks, bot: bot.name },
+          difficulty: Object.fromEntries(speeds.map(s => [s, DIFFICULTY_SETTINGS[s]])),
+          summaries,
+        },
+        null,
+        2
+      );
+
+if (values.out) {
+  writeFileSync(values.out, `${output}\n`);
+} else {
+  process.stdout.write(`${output}\n`);
+}
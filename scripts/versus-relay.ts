@@ -0,0 +1,93 @@
+// Relay for networked versus matches, for local testing.
+//
+//   npm run relay
+//   npm run relay -- --port 9000
+//
+// Clients join a room by name; the first two in a room are paired (the
+// first hosts) and from then on every message one sends is passed to the
+// other untouched. The relay never simulates anything: both clients run
+// the match themselves in lockstep. A room closes when either player
+// leaves.
+import { parseArgs } from 'node:util';
+import { WebSocket, WebSocketServer } from 'ws';
+import { NET_PROTOCOL_VERSION, NetMessage, encodeNetMessage, parseNetMessage } from '../src/game/versus/NetProtocol';
+
+const { values } = parseArgs({
+  options: {
+    port: { type: 'string', default: '8787' },
+  },
+});
+
+const port = Number(values.port);
+if (!Number.isInteger(port) || port < 1 || port > 65535) {
+  process.stderr.write('--port must be a port number\n');
+  process.exit(1);
+}
+
+const rooms = new Map<string, WebSocket[]>();
+const roomOf = new Map<WebSocket, string>();
+
+const send = (socket: WebSocket, message: NetMessage): void => {
+  if (socket.readyState === WebSocket.OPEN) socket.send(encodeNetMessage(message));
+};
+
+const refuse = (socket: WebSocket, reason: string): void => {
+  send(socket, { type: 'error', reason });
+  socket.close();
+};
+
+const join = (socket: WebSocket, room: string, version: number): void => {
+  if (version !== NET_PROTOCOL_VERSION) {
+    refuse(socket, `This relay speaks protocol ${NET_PROTOCOL_VERSION}, the client ${version}`);
+    return;
+  }
+  const members = rooms.get(room) ?? [];
+  if (members.length >= 2) {
+    refuse(socket, `Room "${room}" already has two players`);
+    return;
+  }
+  members.push(socket);
+  rooms.set(room, members);
+  roomOf.set(socket, room);
+  process.stdout.write(`${room}: player ${members.length} joined\n`);
+  if (members.length === 2) {
+    send(members[0], { type: 'matched', player: 0 });
+    send(members[1], { type: 'matched', player: 1 });
+  }
+};
+
+const leave = (socket: WebSocket): void => {
+  const room = roomOf.get(socket);
+  if (room === undefined) return;
+  const members = rooms.get(room) ?? [];
+  rooms.delete(room);
+  for (const member of members) {
+    roomOf.delete(member);
+    if (member !== socket) {
+      send(member, { type: 'peerLeft' });
+      member.close();
+    }
+  }
+  process.stdout.write(`${room}: closed\n`);
+};
+
+const server = new WebSocketServer({ port });
+
+server.on('connection', socket => {
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    const raw = data.toString();
+    const room = roomOf.get(socket);
+    if (room === undefined) {
+      const message = parseNetMessage(raw);
+      if (message?.type === 'join') join(socket, message.room, message.version);
+      else refuse(socket, 'Join a room first');
+      return;
+    }
+    const peer = rooms.get(room)?.find(member => member !== socket);
+    if (peer && peer.readyState === WebSocket.OPEN) peer.send(raw);
+  });
+  socket.on('close', () => leave(socket));
+});
+
+server.on('listening', () => process.stdout.write(`Versus relay listening on ws://localhost:${port}\n`));
@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+import { GameBoard } from './GameBoard';
+import { GameEngine } from '../game/GameEngine';
+import { Autoplayer } from '../game/ai/Autoplayer';
+import { FIXED_TIMESTEP_MS, GameState } from '../game/utils/constants';
+import { GameMode, SpeedSetting } from '../game/utils/types';
+import { randomSeed } from '../game/utils/random';
+import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+
+// How long a finished demo board stays up before a fresh one starts
+const RESTART_DELAY_MS = 1800;
+
+// A miniature Endless run played by the Autoplayer behind the menu. The
+// engine is silent (no audio injected) and the board has no touch layer.
+export const AttractDemo: React.FC = () => {
+  const engineRef = useRef<GameEngine | null>(null);
+  if (!engineRef.current) {
+    engineRef.current = new GameEngine();
+  }
+  const engine = engineRef.current;
+
+  useEffect(() => {
+    const bot = new Autoplayer();
+    const start = () => {
+      const seed = randomSeed();
+      bot.reset(seed);
+      engine.startGame(1, SpeedSetting.MEDIUM, 0, GameMode.ENDLESS, seed);
+    };
+    start();
+
+    let frame: number | null = null;
+    let last = 0;
+    let accumulator = 0;
+    let endedAt: number | null = null;
+    const loop = (timestamp: number) => {
+      const state = engine.getGameState();
+      if (state === GameState.GAME_OVER || state === GameState.LEVEL_COMPLETE) {
+        endedAt ??= timestamp;
+        if (timestamp - endedAt >= RESTART_DELAY_MS) {
+          endedAt = null;
+          start();
+        }
+      } else if (last > 0) {
+        // Same fixed steps the engine's update() takes, with the bot acting
+        // before each one as it does in headless runs. Capped so a
+        // backgrounded tab doesn't fast-forward on return.
+        accumulator = Math.min(accumulator + timestamp - last, FIXED_TIMESTEP_MS * 6);
+        while (accumulator >= FIXED_TIMESTEP_MS) {
+          bot.act(engine);
+          engine.step();
+          accumulator -= FIXED_TIMESTEP_MS;
+        }
+      }
+      last = timestamp;
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [engine]);
+
+  return (
+    <View style={styles.container} pointerEvents="none" accessibilityElementsHidden importantForAccessibility="no-hide-descendants">
+      <GameBoard gameEngine={engine} interactive={false} cellSize={9} reducedMotion />
+      <Text style={styles.caption}>Demo</Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { alignItems: 'center', opacity: 0.85 },
+  caption: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(11), fontWeight: '800', marginTop: responsiveSpacing(6) },
+});
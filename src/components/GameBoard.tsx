@@ -1,5 +1,5 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
-import { View, StyleSheet, Platform, useWindowDimensions } from 'react-native';
+import { View, Text, StyleSheet, Platform, Pressable, useWindowDimensions } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import Animated, {
   useAnimatedStyle,
@@ -11,17 +11,16 @@ import Animated, {
 import { PanGestureHandler, TapGestureHandler, State } from 'react-native-gesture-handler';
 import * as Haptics from 'expo-haptics';
 import { Board } from '../game/entities/Board';
-import { Controllable } from '../game/utils/types';
+import { Controllable, Position } from '../game/utils/types';
 import { GameEngine } from '../game/GameEngine';
+import { Pill } from '../game/entities/Pill';
+import { SinglePill } from '../game/entities/SinglePill';
 import {
-  BOARD_WIDTH,
-  BOARD_HEIGHT,
-  COLOR_GRADIENTS,
-  VIRUS_GRADIENTS,
   CellType,
   Color,
 } from '../game/utils/constants';
 import { theme } from '../utils/theme';
+import { COLOR_SYMBOLS, ColorStyle, DEFAULT_COLOR_STYLE, PALETTES } from '../utils/palette';
 
 const isWeb = Platform.OS === 'web';
 
@@ -55,13 +54,13 @@ const BOARD_CHROME = isWeb ? 40 : 30;
 // in px). This is the reliable path: the box is measured from the real
 // on-screen container, so the board never overlaps the header or the
 // safe-area insets regardless of device.
-const computeLayoutForBox = (availW: number, availH: number): BoardLayout => {
+const computeLayoutForBox = (availW: number, availH: number, columns: number, rows: number): BoardLayout => {
   const cellMargin = isWeb ? 1.5 : 1;
   const boardPadding = isWeb ? 6 : 4;
 
   const usableH = availH - BOARD_CHROME - boardPadding * 2;
   const usableW = availW - BOARD_CHROME - boardPadding * 2;
-  const pitch = Math.floor(Math.min(usableH / BOARD_HEIGHT, usableW / BOARD_WIDTH));
+  const pitch = Math.floor(Math.min(usableH / rows, usableW / columns));
 
   const maxCell = isWeb ? 48 : 44;
   const cellSize = Math.max(12, Math.min(maxCell, pitch - cellMargin * 2));
@@ -73,12 +72,21 @@ const computeLayoutForBox = (availW: number, availH: number): BoardLayout => {
   };
 };
 
+// Fixed metrics for boards drawn at a set cell size (the menu demo, the
+// level editor) rather than fitted to the window
+export const fixedLayout = (cellSize: number): BoardLayout => ({
+  cellSize,
+  cellMargin: 1,
+  cellPitch: cellSize + 2,
+  boardPadding: 4,
+});
+
 // Fallback used before the container has been measured (and on web, where the
 // board is laid out against the window with fixed reserves for chrome/panels).
-const computeLayoutFromWindow = (width: number, height: number): BoardLayout => {
+const computeLayoutFromWindow = (width: number, height: number, columns: number, rows: number): BoardLayout => {
   const reservedVertical = isWeb ? 230 : 260;
   const reservedHorizontal = isWeb ? 90 : 24;
-  return computeLayoutForBox(width - reservedHorizontal, height - reservedVertical);
+  return computeLayoutForBox(width - reservedHorizontal, height - reservedVertical, columns, rows);
 };
 
 interface GameBoardProps {
@@ -88,24 +96,48 @@ interface GameBoardProps {
   // When omitted, falls back to a window-derived estimate.
   availableWidth?: number;
   availableHeight?: number;
+  // False for boards nobody plays (replays): no touch layer is mounted
+  interactive?: boolean;
+  // Fixed cell size for miniature boards (the menu's attract demo); skips
+  // fitting the board to the window
+  cellSize?: number;
+  // Outline where the held/selected piece would land if dropped
+  showLandingGhost?: boolean;
+  // Palette and color symbols chosen in settings
+  colorStyle?: ColorStyle;
 }
 
+// Each capsule color also carries its own white mark, so halves can be
+// told apart without relying on hue
+const COLOR_MARKS = {
+  [Color.RED]: 'markStripe',
+  [Color.BLUE]: 'markDot',
+  [Color.YELLOW]: 'markSlash',
+  [Color.GREEN]: 'markRing',
+  [Color.PURPLE]: 'markBar',
+} as const;
+
 const TokenContent = ({
   color,
   isVirus,
   cellSize,
+  colorStyle,
 }: {
   color: Color;
   isVirus: boolean;
   cellSize: number;
+  colorStyle: ColorStyle;
 }) => {
-  const gradientColors = isVirus ? VIRUS_GRADIENTS[color] : COLOR_GRADIENTS[color];
-  const markStyle =
-    color === Color.RED
-      ? styles.markStripe
-      : color === Color.BLUE
-        ? styles.markDot
-        : styles.markSlash;
+  const palette = PALETTES[colorStyle.palette];
+  const gradientColors = isVirus ? palette.virus[color] : palette.pill[color];
+  const markStyle = COLOR_MARKS[color];
+  // With symbols on, the color's symbol replaces the mark on capsules and
+  // the mouth on germs
+  const symbol = colorStyle.symbols && (
+    <Text style={[styles.colorSymbol, isVirus && styles.virusSymbol, { fontSize: Math.max(8, Math.round(cellSize * (isVirus ? 0.34 : 0.5))) }]}>
+      {COLOR_SYMBOLS[color]}
+    </Text>
+  );
 
   return (
     <LinearGradient
@@ -124,10 +156,10 @@ const TokenContent = ({
             <View style={styles.virusEye} />
             <View style={styles.virusEye} />
           </View>
-          <View style={styles.virusMouth} />
+          {symbol || <View style={styles.virusMouth} />}
         </>
       ) : (
-        <View style={markStyle} />
+        symbol || <View style={styles[markStyle]} />
       )}
     </LinearGradient>
   );
@@ -135,36 +167,61 @@ const TokenContent = ({
 
 // The settled board: viruses and placed pill halves. Memoized on the board
 // version so the 60fps falling-piece updates don't re-render the grid.
-const StaticGrid = React.memo<{ board: Board; version: number; layout: BoardLayout }>(
-  ({ board, layout }) => {
+// With onCellPress every cell becomes a button (the level editor paints
+// through it); keep the handler stable or the memo is defeated.
+export const StaticGrid = React.memo<{
+  board: Board;
+  version: number;
+  layout: BoardLayout;
+  onCellPress?: (x: number, y: number) => void;
+  colorStyle?: ColorStyle;
+}>(
+  ({ board, layout, onCellPress, colorStyle = DEFAULT_COLOR_STYLE }) => {
     const cellDims = {
       width: layout.cellSize,
       height: layout.cellSize,
       margin: layout.cellMargin,
     };
+    const renderCell = (x: number, y: number) => {
+      const cell = board.getCell(x, y);
+      if (!cell || cell.type === CellType.EMPTY || !cell.color) {
+        return <View style={[styles.cell, styles.emptyCell, cellDims]} />;
+      }
+
+      const isVirus = cell.type === CellType.VIRUS;
+
+      return (
+        <View
+          style={[
+            styles.cell,
+            cellDims,
+            isVirus ? styles.virusCell : styles.settledPillCell,
+          ]}
+        >
+          <TokenContent color={cell.color} isVirus={isVirus} cellSize={layout.cellSize} colorStyle={colorStyle} />
+        </View>
+      );
+    };
     return (
       <View>
-        {Array.from({ length: BOARD_HEIGHT }, (_, y) => (
+        {Array.from({ length: board.height }, (_, y) => (
           <View key={y} style={styles.row}>
-            {Array.from({ length: BOARD_WIDTH }, (_, x) => {
+            {Array.from({ length: board.width }, (_, x) => {
+              if (!onCellPress) return <React.Fragment key={x}>{renderCell(x, y)}</React.Fragment>;
               const cell = board.getCell(x, y);
-              if (!cell || cell.type === CellType.EMPTY || !cell.color) {
-                return <View key={x} style={[styles.cell, styles.emptyCell, cellDims]} />;
-              }
-
-              const isVirus = cell.type === CellType.VIRUS;
-
+              const contents =
+                !cell || cell.type === CellType.EMPTY || !cell.color
+                  ? 'empty'
+                  : `${cell.color.toLowerCase()} ${cell.type === CellType.VIRUS ? 'microbe' : 'capsule half'}`;
               return (
-                <View
+                <Pressable
                   key={x}
-                  style={[
-                    styles.cell,
-                    cellDims,
-                    isVirus ? styles.virusCell : styles.settledPillCell,
-                  ]}
+                  accessibilityRole="button"
+                  accessibilityLabel={`Column ${x + 1}, row ${y + 1}, ${contents}`}
+                  onPress={() => onCellPress(x, y)}
                 >
-                  <TokenContent color={cell.color} isVirus={isVirus} cellSize={layout.cellSize} />
-                </View>
+                  {renderCell(x, y)}
+                </Pressable>
               );
             })}
           </View>
@@ -173,9 +230,52 @@ const StaticGrid = React.memo<{ board: Board; version: number; layout: BoardLayo
     );
   },
   (prev, next) =>
-    prev.version === next.version && prev.layout.cellSize === next.layout.cellSize
+    prev.version === next.version &&
+    prev.layout.cellSize === next.layout.cellSize &&
+    prev.board === next.board &&
+    prev.onCellPress === next.onCellPress &&
+    prev.colorStyle?.palette === next.colorStyle?.palette &&
+    prev.colorStyle?.symbols === next.colorStyle?.symbols
 );
 
+// Colors in getPositions() order: both halves of a capsule, or a lone half
+const pieceColors = (pill: Controllable): Color[] =>
+  pill instanceof Pill ? [...pill.colors] : pill instanceof SinglePill ? [pill.color] : [];
+
+// Translucent outline of cells a piece could occupy: where it lands if
+// dropped now, or the hint's recommended spot (dashed). Drawn under the
+// falling pieces and never touchable.
+const GhostCells: React.FC<{
+  positions: Position[];
+  colors: Color[];
+  layout: BoardLayout;
+  variant: 'landing' | 'hint';
+  colorStyle: ColorStyle;
+}> = ({ positions, colors, layout, variant, colorStyle }) => {
+  const { cellSize, cellMargin, cellPitch, boardPadding } = layout;
+  return (
+    <>
+      {positions.map((pos, index) => (
+        <View
+          key={`${pos.x},${pos.y}`}
+          pointerEvents="none"
+          style={[
+            styles.ghostCell,
+            variant === 'hint' && styles.hintGhostCell,
+            {
+              width: cellSize,
+              height: cellSize,
+              left: boardPadding + pos.x * cellPitch + cellMargin,
+              top: boardPadding + pos.y * cellPitch + cellMargin,
+              borderColor: PALETTES[colorStyle.palette].values[colors[index] ?? colors[0]],
+            },
+          ]}
+        />
+      ))}
+    </>
+  );
+};
+
 // One falling piece (whole capsule or single half), absolutely positioned
 // over the grid. Purely visual: grabbing, dragging and rotating are handled
 // by a single board-level gesture layer (see GameBoard) so a fingertip does
@@ -190,7 +290,8 @@ const FallingPiece: React.FC<{
   reducedMotion: boolean;
   // Increments each time this piece is rotated, to trigger the settle anim
   rotatePulse: number;
-}> = ({ pill, board, isSelected, layout, reducedMotion, rotatePulse }) => {
+  colorStyle: ColorStyle;
+}> = ({ pill, board, isSelected, layout, reducedMotion, rotatePulse, colorStyle }) => {
   const scale = useSharedValue(1);
   // Radians of leftover rotation that springs back to 0 so a rotate reads as
   // the capsule turning into place rather than snapping
@@ -234,10 +335,7 @@ const FallingPiece: React.FC<{
     transform: [{ rotate: `${settle.value}rad` }, { scale: scale.value }],
   }));
 
-  const colors: Color[] =
-    'colors' in pill && Array.isArray((pill as any).colors)
-      ? ((pill as any).colors as Color[])
-      : [(pill as any).color as Color];
+  const colors = pieceColors(pill);
 
   const isCapsule = colors.length === 2;
 
@@ -281,7 +379,7 @@ const FallingPiece: React.FC<{
               isSelected && styles.activeCellShadow,
             ]}
           >
-            <TokenContent color={colors[index] ?? colors[0]} isVirus={false} cellSize={cellSize} />
+            <TokenContent color={colors[index] ?? colors[0]} isVirus={false} cellSize={cellSize} colorStyle={colorStyle} />
           </View>
         ))}
       </Animated.View>
@@ -294,24 +392,31 @@ export const GameBoard: React.FC<GameBoardProps> = ({
   reducedMotion = false,
   availableWidth,
   availableHeight,
+  interactive = true,
+  cellSize,
+  showLandingGhost = false,
+  colorStyle = DEFAULT_COLOR_STYLE,
 }) => {
   const boardScale = useSharedValue(0.95);
   const { width, height } = useWindowDimensions();
-  const layout = useMemo(() => {
+  // The tray's own size, which varies from run to run
+  const { width: columns, height: rows } = gameEngine.getBoard();
+  const layout = useMemo((): BoardLayout => {
+    if (cellSize) {
+      return fixedLayout(cellSize);
+    }
     // Prefer the measured container box on native; fall back to the window
     // estimate on web or before the first measurement lands
     if (!isWeb && availableWidth && availableHeight) {
-      return computeLayoutForBox(availableWidth, availableHeight);
+      return computeLayoutForBox(availableWidth, availableHeight, columns, rows);
     }
-    return computeLayoutFromWindow(width, height);
-  }, [width, height, availableWidth, availableHeight]);
+    return computeLayoutFromWindow(width, height, columns, rows);
+  }, [width, height, availableWidth, availableHeight, cellSize, columns, rows]);
 
   // The board subscribes to engine ticks itself, so 60fps falling-piece
   // updates re-render only this subtree - not the header/stats above it
   const [, setTick] = useState(0);
-  useEffect(() => {
-    gameEngine.setCallbacks({ onBoardChange: () => setTick(t => t + 1) });
-  }, [gameEngine]);
+  useEffect(() => gameEngine.events.on('boardChanged', () => setTick(t => t + 1)), [gameEngine]);
 
   useEffect(() => {
     boardScale.value = reducedMotion ? 1 : withSpring(1, { damping: 12, stiffness: 180 });
@@ -386,6 +491,7 @@ export const GameBoard: React.FC<GameBoardProps> = ({
   const board = gameEngine.getBoard();
   const fallingPills = gameEngine.getAllFallingPills();
   const selectedPill = gameEngine.getSelectedPill();
+  const hint = gameEngine.getHint();
 
   return (
     <View style={styles.container} accessible accessibilityRole="summary" accessibilityLabel="Pill Panic game board. Match four colours to clear every microbe.">
@@ -395,8 +501,27 @@ export const GameBoard: React.FC<GameBoardProps> = ({
           style={styles.boardBackground}
         >
           <View style={[styles.board, { padding: layout.boardPadding }]}>
-            <StaticGrid board={board} version={board.version} layout={layout} />
+            <StaticGrid board={board} version={board.version} layout={layout} colorStyle={colorStyle} />
             <View style={StyleSheet.absoluteFill} pointerEvents="box-none">
+              {hint && <GhostCells positions={hint.positions} colors={hint.colors} layout={layout} variant="hint" colorStyle={colorStyle} />}
+              {showLandingGhost &&
+                fallingPills
+                  .filter(pill => pill.isActive && (pill.held || pill === selectedPill))
+                  .map(pill => {
+                    const landing = gameEngine.getLandingPositions(pill);
+                    // Nothing to preview once the piece is already resting
+                    if (landing[0].y === pill.position.y) return null;
+                    return (
+                      <GhostCells
+                        key={`ghost-${pill.id}`}
+                        positions={landing}
+                        colors={pieceColors(pill)}
+                        layout={layout}
+                        variant="landing"
+                        colorStyle={colorStyle}
+                      />
+                    );
+                  })}
               {fallingPills
                 .filter(pill => pill.isActive)
                 .map(pill => (
@@ -408,23 +533,26 @@ export const GameBoard: React.FC<GameBoardProps> = ({
                     layout={layout}
                     reducedMotion={reducedMotion}
                     rotatePulse={rotated?.id === pill.id ? rotated.n : 0}
+                    colorStyle={colorStyle}
                   />
                 ))}
             </View>
             {/* Single gesture surface over the whole grid: tap rotates and
                 drag moves the nearest capsule, so aim need not be precise */}
-            <TapGestureHandler maxDist={TAP_MAX_DIST} maxDurationMs={320} onHandlerStateChange={handleTap}>
-              <Animated.View style={StyleSheet.absoluteFill}>
-                <PanGestureHandler
-                  minDist={DRAG_ACTIVATE_DIST}
-                  shouldCancelWhenOutside={false}
-                  onGestureEvent={handlePan}
-                  onHandlerStateChange={handlePan}
-                >
-                  <Animated.View style={StyleSheet.absoluteFill} />
-                </PanGestureHandler>
-              </Animated.View>
-            </TapGestureHandler>
+            {interactive && (
+              <TapGestureHandler maxDist={TAP_MAX_DIST} maxDurationMs={320} onHandlerStateChange={handleTap}>
+                <Animated.View style={StyleSheet.absoluteFill}>
+                  <PanGestureHandler
+                    minDist={DRAG_ACTIVATE_DIST}
+                    shouldCancelWhenOutside={false}
+                    onGestureEvent={handlePan}
+                    onHandlerStateChange={handlePan}
+                  >
+                    <Animated.View style={StyleSheet.absoluteFill} />
+                  </PanGestureHandler>
+                </Animated.View>
+              </TapGestureHandler>
+            )}
           </View>
         </LinearGradient>
       </Animated.View>
@@ -525,6 +653,38 @@ const styles = StyleSheet.create({
     backgroundColor: 'rgba(255,255,255,0.64)',
     transform: [{ rotate: '36deg' }],
   },
+  markRing: {
+    position: 'absolute',
+    alignSelf: 'center',
+    top: '30%',
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.68)',
+  },
+  markBar: {
+    position: 'absolute',
+    alignSelf: 'center',
+    top: '20%',
+    width: 3,
+    height: '60%',
+    borderRadius: 2,
+    backgroundColor: 'rgba(255,255,255,0.64)',
+  },
+
+  colorSymbol: {
+    position: 'absolute',
+    alignSelf: 'center',
+    top: '20%',
+    color: 'rgba(20,26,40,0.72)',
+    fontWeight: '900',
+    textAlign: 'center',
+  },
+  virusSymbol: {
+    top: undefined,
+    bottom: '8%',
+  },
   virusEyes: {
     position: 'absolute',
     left: '24%',
@@ -548,6 +708,18 @@ const styles = StyleSheet.create({
     borderRadius: 2,
     backgroundColor: 'rgba(36,48,74,0.48)',
   },
+  ghostCell: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderRadius: theme.borderRadius.md,
+    backgroundColor: 'rgba(255,255,255,0.06)',
+    opacity: 0.5,
+  },
+  hintGhostCell: {
+    borderStyle: 'dashed',
+    backgroundColor: 'rgba(255,255,255,0.08)',
+    opacity: 0.8,
+  },
   piece: {
     position: 'absolute',
     left: 0,
@@ -2,105 +2,190 @@ import React, { useEffect, useRef } from 'react';
 import { View, TouchableOpacity, Text, StyleSheet, Platform } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { GameEngine } from '../game/GameEngine';
-import { Direction } from '../game/utils/constants';
+import { Direction, GameState } from '../game/utils/constants';
+import { heldGamepadActions } from '../utils/gamepad';
+import {
+  DEFAULT_KEY_REPEAT,
+  KEY_ACTIONS,
+  KeyAction,
+  KeyBindings,
+  KeyRepeatSettings,
+  SINGLE_PLAYER_KEYS,
+  normalizeKey,
+} from '../utils/keyBindings';
 
 interface GameControlsProps {
   gameEngine: GameEngine;
+  bindings?: KeyBindings;
+  repeat?: KeyRepeatSettings;
   children: React.ReactNode;
 }
 
-const INPUT_COOLDOWN = 100; // milliseconds
+const runAction = (gameEngine: GameEngine, action: KeyAction): void => {
+  switch (action) {
+    case 'left':
+      gameEngine.movePill(Direction.LEFT);
+      break;
+    case 'right':
+      gameEngine.movePill(Direction.RIGHT);
+      break;
+    case 'rotate':
+      gameEngine.rotatePill();
+      break;
+    case 'rotateCcw':
+      gameEngine.rotatePill(true);
+      break;
+    case 'drop':
+      gameEngine.dropPill();
+      break;
+    case 'switch':
+      gameEngine.switchToNextPill();
+      break;
+    case 'pause':
+      gameEngine.pause();
+      break;
+    case 'softDrop':
+      gameEngine.setFastDrop(true);
+      break;
+  }
+};
 
-export const GameControls: React.FC<GameControlsProps> = ({ gameEngine, children }) => {
-  const lastInputTime = useRef<{ [key: string]: number }>({
-    left: 0,
-    right: 0,
-    down: 0,
-    rotate: 0,
-    switch: 0,
-    drop: 0,
-  });
-
-  const canInput = (action: string): boolean => {
-    const now = Date.now();
-    const lastTime = lastInputTime.current[action] || 0;
-    if (now - lastTime > INPUT_COOLDOWN) {
-      lastInputTime.current[action] = now;
-      return true;
-    }
-    return false;
-  };
-  // Keyboard controls for web - work alongside touch controls
+// Keyboard controls for web - work alongside touch controls. Screens with
+// more than one board call this once per board with its own bindings.
+// Each press acts once; held keys repeat on their action's DAS/ARR timing
+// rather than the browser's own key repeat, which varies by system.
+export const useKeyboardControls = (
+  gameEngine: GameEngine,
+  bindings: KeyBindings = SINGLE_PLAYER_KEYS,
+  repeat: KeyRepeatSettings = DEFAULT_KEY_REPEAT
+) => {
   useEffect(() => {
-    if (Platform.OS === 'web') {
-      const handleKeyPress = (event: KeyboardEvent) => {
-        switch (event.key) {
-          case 'ArrowLeft':
-          case 'a':
-          case 'A':
-            event.preventDefault(); // Stop the page scrolling while playing
-            if (canInput('left')) {
-              gameEngine.movePill(Direction.LEFT);
-            }
-            break;
-          case 'ArrowRight':
-          case 'd':
-          case 'D':
-            event.preventDefault();
-            if (canInput('right')) {
-              gameEngine.movePill(Direction.RIGHT);
-            }
-            break;
-          case 'ArrowDown':
-          case 's':
-          case 'S':
-            event.preventDefault();
-            gameEngine.setFastDrop(true);
-            break;
-          case 'ArrowUp':
-          case 'w':
-          case 'W':
-          case ' ':
-            event.preventDefault();
-            if (canInput('rotate')) {
-              gameEngine.rotatePill();
-            }
-            break;
-          case 'Enter':
-            event.preventDefault();
-            if (canInput('drop')) {
-              gameEngine.dropPill();
-            }
-            break;
-          case 'Tab':
-            event.preventDefault(); // Prevent default tab behavior
-            if (canInput('switch')) {
-              gameEngine.switchToNextPill();
-            }
-            break;
-          case 'p':
-          case 'P':
-            gameEngine.pause();
-            break;
-        }
-      };
+    if (Platform.OS !== 'web') return;
+    // Keys down, with the repeat timer of each (null if it doesn't repeat)
+    const held = new Map<string, ReturnType<typeof setTimeout> | null>();
 
-      const handleKeyUp = (event: KeyboardEvent) => {
-        if (event.key === 'ArrowDown' || event.key === 's' || event.key === 'S') {
-          gameEngine.setFastDrop(false);
-        }
-      };
+    const release = (key: string) => {
+      const timer = held.get(key);
+      if (timer) {
+        clearTimeout(timer);
+        clearInterval(timer);
+      }
+      held.delete(key);
+    };
 
-      window.addEventListener('keydown', handleKeyPress);
-      window.addEventListener('keyup', handleKeyUp);
+    const handleKeyPress = (event: KeyboardEvent) => {
+      const key = normalizeKey(event.key);
+      const action = KEY_ACTIONS.find(candidate => bindings[candidate].includes(key));
+      if (!action) return;
+      // Stop the page scrolling (and Tab moving focus) while playing; pause
+      // keeps the browser's own handling
+      if (action !== 'pause') event.preventDefault();
+      if (event.repeat || held.has(key)) return;
 
-      return () => {
-        window.removeEventListener('keydown', handleKeyPress);
-        window.removeEventListener('keyup', handleKeyUp);
-      };
-    }
-  }, [gameEngine, canInput]);
+      runAction(gameEngine, action);
+      const timing = action === 'softDrop' ? null : repeat[action];
+      held.set(key, timing && setTimeout(() => {
+        runAction(gameEngine, action);
+        held.set(key, setInterval(() => runAction(gameEngine, action), Math.max(timing.arr, 16)));
+      }, timing.das));
+    };
+
+    const handleKeyUp = (event: KeyboardEvent) => {
+      const key = normalizeKey(event.key);
+      release(key);
+      if (bindings.softDrop.includes(key)) {
+        gameEngine.setFastDrop(false);
+      }
+    };
+
+    // Keys let go while the window is in the background never send keyup
+    const handleBlur = () => {
+      [...held.keys()].forEach(release);
+      if (bindings.softDrop.length > 0) gameEngine.setFastDrop(false);
+    };
+
+    window.addEventListener('keydown', handleKeyPress);
+    window.addEventListener('keyup', handleKeyUp);
+    window.addEventListener('blur', handleBlur);
+
+    return () => {
+      [...held.keys()].forEach(release);
+      window.removeEventListener('keydown', handleKeyPress);
+      window.removeEventListener('keyup', handleKeyUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  }, [gameEngine, bindings, repeat]);
+};
+
+// Which connected pads drive a board: any of them, the one at a given
+// Gamepad API index, or none
+export type GamepadSlot = number | 'any' | null;
+
+// Controller input for web through the Gamepad API, polled every frame since
+// the API has no button events. Repeats follow the same per-action DAS/ARR
+// as the keyboard. Start toggles pause, as there's no key to resume with;
+// screens that pause several boards together pass onPause to take it over.
+// Native builds have no controller bridge here, so this does nothing there.
+export const useGamepadControls = (
+  gameEngine: GameEngine,
+  repeat: KeyRepeatSettings = DEFAULT_KEY_REPEAT,
+  slot: GamepadSlot = 'any',
+  onPause?: () => void
+) => {
+  const onPauseRef = useRef(onPause);
+  onPauseRef.current = onPause;
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || slot === null || typeof navigator === 'undefined' || !navigator.getGamepads) return;
+    // Actions held as of the last poll, with when each repeats next (null
+    // if it doesn't)
+    const held = new Map<KeyAction, number | null>();
+
+    const press = (action: KeyAction) => {
+      if (action !== 'pause') runAction(gameEngine, action);
+      else if (onPauseRef.current) onPauseRef.current();
+      else if (gameEngine.getGameState() === GameState.PAUSED) gameEngine.resume();
+      else gameEngine.pause();
+    };
+
+    const poll = (now: number) => {
+      const down = new Set<KeyAction>();
+      for (const pad of navigator.getGamepads()) {
+        if (!pad || !pad.connected || (slot !== 'any' && pad.index !== slot)) continue;
+        heldGamepadActions(pad).forEach(action => down.add(action));
+      }
+      held.forEach((_, action) => {
+        if (down.has(action)) return;
+        held.delete(action);
+        if (action === 'softDrop') gameEngine.setFastDrop(false);
+      });
+      down.forEach(action => {
+        const timing = action === 'softDrop' ? null : repeat[action];
+        if (!held.has(action)) {
+          press(action);
+          held.set(action, timing && now + timing.das);
+        } else {
+          const next = held.get(action);
+          if (timing && next != null && now >= next) {
+            press(action);
+            held.set(action, now + Math.max(timing.arr, 16));
+          }
+        }
+      });
+      frame = requestAnimationFrame(poll);
+    };
+
+    let frame = requestAnimationFrame(poll);
+    return () => {
+      cancelAnimationFrame(frame);
+      if (held.has('softDrop')) gameEngine.setFastDrop(false);
+    };
+  }, [gameEngine, repeat, slot]);
+};
 
+export const GameControls: React.FC<GameControlsProps> = ({ gameEngine, bindings, repeat, children }) => {
+  useKeyboardControls(gameEngine, bindings, repeat);
+  useGamepadControls(gameEngine, repeat);
 
   // Global pan gestures removed - individual pills now handle their own drag gestures
 
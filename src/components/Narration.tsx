@@ -0,0 +1,74 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { AccessibilityInfo, Platform, StyleSheet, Text } from 'react-native';
+
+const isWeb = Platform.OS === 'web';
+
+// Lines arriving this close together are read as one announcement, so a
+// landing and the match it sets off don't cut each other off
+const BATCH_MS = 300;
+
+// Speaks game events to screen reader players. Native platforms announce
+// through VoiceOver/TalkBack; react-native-web has no announce API, so on
+// the web the text goes to an ARIA live region the screen renders with
+// <NarrationLiveRegion>. Does nothing while no screen reader is running.
+// react-native-web can't detect one and always reports true, so on the web
+// narration follows webEnabled, the player's setting, instead.
+export const useNarration = (webEnabled = false) => {
+  const [enabled, setEnabled] = useState(false);
+  const [liveText, setLiveText] = useState('');
+  const pending = useRef<string[]>([]);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const enabledRef = useRef(false);
+
+  useEffect(() => {
+    let mounted = true;
+    const update = (value: boolean) => {
+      enabledRef.current = value;
+      if (mounted) setEnabled(value);
+    };
+    if (isWeb) update(webEnabled);
+    else AccessibilityInfo.isScreenReaderEnabled().then(update);
+    const sub = isWeb ? null : AccessibilityInfo.addEventListener('screenReaderChanged', update);
+    return () => {
+      mounted = false;
+      sub?.remove();
+      if (timer.current) clearTimeout(timer.current);
+    };
+  }, [webEnabled]);
+
+  const flush = useCallback(() => {
+    timer.current = null;
+    const text = pending.current.join('. ');
+    pending.current = [];
+    if (!text) return;
+    if (isWeb) setLiveText(text);
+    else AccessibilityInfo.announceForAccessibility(text);
+  }, []);
+
+  // Stable across renders, so engine callbacks can hold on to it
+  const announce = useCallback((text: string | null) => {
+    if (!text || !enabledRef.current) return;
+    pending.current.push(text);
+    if (!timer.current) timer.current = setTimeout(flush, BATCH_MS);
+  }, [flush]);
+
+  return { enabled, announce, liveText };
+};
+
+// Off-screen but still read: the web side of useNarration
+export const NarrationLiveRegion: React.FC<{ text: string }> = ({ text }) =>
+  isWeb ? (
+    <Text style={styles.hidden} accessibilityLiveRegion="polite">
+      {text}
+    </Text>
+  ) : null;
+
+const styles = StyleSheet.create({
+  hidden: {
+    position: 'absolute',
+    width: 1,
+    height: 1,
+    overflow: 'hidden',
+    opacity: 0,
+  },
+});
@@ -1,7 +1,7 @@
 import { Board } from './entities/Board';
 import { Pill } from './entities/Pill';
 import { SinglePill } from './entities/SinglePill';
-import { MatchingSystem } from './systems/MatchingSystem';
+import { MatchingSystem, wouldCreateRun } from './systems/MatchingSystem';
 import {
   GameState,
   Direction,
@@ -12,15 +12,47 @@ import {
   Color,
   CellType,
   getVirusCount,
+  paletteFor,
+  DEFAULT_COLOR_COUNT,
   BOARD_WIDTH,
   BOARD_HEIGHT,
   SPAWN_GAP_ROWS,
   MAX_CONCURRENT_PILLS,
   GROUNDED_RELEASE_LOCK,
-  SPAWN_X,
+  FIXED_TIMESTEP_MS,
+  HINTS_PER_LEVEL,
+  HINT_BONUS_PENALTY,
+  TIME_ATTACK_START_MS,
+  SPRINT_GERMS,
+  SPRINT_SPLIT_GERMS,
+  SPRINT_BOARD_USAGE,
+  TIME_PER_GERM_MS,
+  TIME_WAVE_BONUS_MS,
 } from './utils/constants';
-import { GameStats, Virus, Controllable, SpeedSetting, GameMode, Position, GameFeedbackEvent, EndlessSnapshot } from './utils/types';
-import { SoundManager } from '../utils/SoundManager';
+import {
+  GameStats,
+  Virus,
+  Controllable,
+  SpeedSetting,
+  GameMode,
+  Position,
+  CellColor,
+  EngineEvent,
+  GameOverCause,
+  EngineSnapshot,
+  ReplayCommand,
+  ReplayEntry,
+  ReplayLog,
+  PuzzleLevel,
+  BoardSize,
+} from './utils/types';
+import { SeededRandom, randomSeed } from './utils/random';
+import { EventBus } from './utils/events';
+import { ENGINE_SNAPSHOT_VERSION, restorePiece, snapshotPiece } from './snapshot/SnapshotFormat';
+import { Placement, findBestPlacement } from './ai/PlacementSearch';
+import { applyPuzzleBoard, goalsMet } from './puzzles/PuzzleFormat';
+
+const STANDARD_BOARD: BoardSize = { width: BOARD_WIDTH, height: BOARD_HEIGHT };
 
 // Germ Buster (Virus Buster) style engine:
 // - capsules drift down smoothly and continuously
@@ -46,6 +78,10 @@ export class GameEngine {
     capsulesPlaced: 0,
     currentSpeedLevel: 0,
     speedSetting: SpeedSetting.MEDIUM,
+    hintsUsed: 0,
+    movesLeft: null,
+    timeLeftMs: null,
+    elapsedMs: null,
   };
   private difficulty = DIFFICULTY_SETTINGS.MEDIUM;
   private currentFallSpeed: number = DIFFICULTY_SETTINGS.MEDIUM.fallSpeed;
@@ -55,41 +91,87 @@ export class GameEngine {
   private grabStart: Position | null = null;
   // Countdown between an Endless wave clearing and the next germs appearing
   private waveDelay: number = 0;
-  private onStateChange?: (state: GameState) => void;
-  private onStatsChange?: (stats: GameStats) => void;
-  private onBoardChange?: () => void;
-  private onFeedback?: (event: GameFeedbackEvent) => void;
-  private soundManager: SoundManager;
   private accumulator: number = 0;
-  private readonly FIXED_TIMESTEP: number = 16.67; // 60 FPS
+  // Every random decision in a run (germ layout, capsule colors, spawn
+  // columns) draws from this one stream, so a seed reproduces the run
+  private seed: number = 0;
+  private rng: SeededRandom = new SeededRandom(0);
+  // Fixed-timestep ticks simulated this run; stamps recorded input
+  private tick: number = 0;
+  // Run-local counter for capsule ids, so a replay addresses the same
+  // capsule by the same id
+  private entitySeq: number = 0;
+  // Every player command this run, in order. Null once the run can no longer
+  // be replayed from its seed (e.g. resumed from a snapshot).
+  private inputLog: ReplayEntry[] | null = [];
+  private runStart = { level: 1, initialScore: 0 };
+  // Recommended landing for one piece, shown until that piece settles
+  private hint: { pieceId: string; placement: Placement } | null = null;
+  // The hand-authored level being played (PUZZLE mode), and how far into
+  // its capsule sequence the run is
+  private puzzle: PuzzleLevel | null = null;
+  private puzzleCapsuleIndex: number = 0;
+  // Garbage halves sent by a versus opponent, dropped in when the next
+  // capsule enters
+  private pendingGarbage: Color[] = [];
+  // Colors germs and capsules are drawn from this run
+  private palette: Color[] = paletteFor(DEFAULT_COLOR_COUNT);
+  // Sprint clock readings (ms) at every SPRINT_SPLIT_GERMS germs cleared
+  private splits: number[] = [];
+  private readonly FIXED_TIMESTEP: number = FIXED_TIMESTEP_MS; // 60 FPS
+  // Everything that happens in the run, for any number of listeners (the
+  // screen, the board renderer, a versus match routing garbage...)
+  readonly events = new EventBus<EngineEvent>();
 
   constructor() {
     this.board = new Board();
     this.matchingSystem = new MatchingSystem(this.board);
-    this.soundManager = SoundManager.getInstance();
-    this.soundManager.initialize();
-  }
-
-  // Merge semantics: callers only overwrite the callbacks they provide, so
-  // the screen (state/stats) and the board renderer can register separately
-  setCallbacks(callbacks: {
-    onStateChange?: (state: GameState) => void;
-    onStatsChange?: (stats: GameStats) => void;
-    onBoardChange?: () => void;
-    onFeedback?: (event: GameFeedbackEvent) => void;
-  }) {
-    if (callbacks.onStateChange) this.onStateChange = callbacks.onStateChange;
-    if (callbacks.onStatsChange) this.onStatsChange = callbacks.onStatsChange;
-    if (callbacks.onBoardChange) this.onBoardChange = callbacks.onBoardChange;
-    if (callbacks.onFeedback) this.onFeedback = callbacks.onFeedback;
   }
 
   startGame(
     level: number = 1,
     speedSetting: SpeedSetting = SpeedSetting.MEDIUM,
     initialScore: number = 0,
-    mode: GameMode = GameMode.CLASSIC
+    mode: GameMode = GameMode.CLASSIC,
+    seed: number = randomSeed(),
+    boardSize: BoardSize = STANDARD_BOARD,
+    colorCount: number = DEFAULT_COLOR_COUNT
+  ): void {
+    this.puzzle = null;
+    this.beginRun(level, speedSetting, initialScore, mode, seed, boardSize, colorCount);
+  }
+
+  // Play a hand-authored level: its board replaces the random germ layout
+  // and its capsule sequence replaces random colors
+  startPuzzle(
+    puzzle: PuzzleLevel,
+    speedSetting: SpeedSetting = SpeedSetting.MEDIUM,
+    seed: number = randomSeed()
+  ): void {
+    this.puzzle = puzzle;
+    this.beginRun(1, speedSetting, 0, GameMode.PUZZLE, seed, STANDARD_BOARD, DEFAULT_COLOR_COUNT);
+  }
+
+  getPuzzle(): PuzzleLevel | null {
+    return this.puzzle;
+  }
+
+  private beginRun(
+    level: number,
+    speedSetting: SpeedSetting,
+    initialScore: number,
+    mode: GameMode,
+    seed: number,
+    boardSize: BoardSize,
+    colorCount: number
   ): void {
+    this.seed = seed >>> 0;
+    this.palette = paletteFor(colorCount);
+    this.rng = new SeededRandom(this.seed);
+    this.tick = 0;
+    this.entitySeq = 0;
+    this.inputLog = [];
+    this.runStart = { level, initialScore };
     this.stats = {
       score: initialScore,
       level,
@@ -98,16 +180,29 @@ export class GameEngine {
       capsulesPlaced: 0,
       currentSpeedLevel: 0,
       speedSetting,
+      hintsUsed: 0,
+      movesLeft: this.puzzle?.moveLimit ?? null,
+      timeLeftMs: mode === GameMode.TIME_ATTACK ? TIME_ATTACK_START_MS : null,
+      elapsedMs: mode === GameMode.SPRINT ? 0 : null,
     };
     this.gameMode = mode;
-    this.board.clear();
-    this.generateViruses(level);
+    this.puzzleCapsuleIndex = 0;
+    this.board.resize(boardSize.width, boardSize.height);
+    if (this.puzzle) {
+      applyPuzzleBoard(this.board, this.puzzle);
+    } else {
+      this.generateViruses(level);
+    }
     this.stats.virusCount = this.board.countViruses();
     this.fallingPills = [];
     this.selectedPill = null;
     this.grabStart = null;
     this.combo = 0;
-    this.nextPill = Pill.generateRandomPill();
+    this.waveDelay = 0;
+    this.hint = null;
+    this.pendingGarbage = [];
+    this.splits = [];
+    this.nextPill = this.generatePill();
     // Virus Buster style: fall speed is gentle per difficulty and, in
     // Endless, ratchets up wave by wave along with the capsule count
     this.difficulty = DIFFICULTY_SETTINGS[speedSetting];
@@ -135,20 +230,7 @@ export class GameEngine {
       const queued = pending.find(v => v.position.x === cx && v.position.y === cy);
       return queued ? queued.color : null;
     };
-
-    for (const [dx, dy] of [[1, 0], [0, 1]] as const) {
-      let run = 1;
-      for (let step = 1; step <= 2; step++) {
-        if (colorAt(x + dx * step, y + dy * step) === color) run++;
-        else break;
-      }
-      for (let step = 1; step <= 2; step++) {
-        if (colorAt(x - dx * step, y - dy * step) === color) run++;
-        else break;
-      }
-      if (run >= 3) return true;
-    }
-    return false;
+    return wouldCreateRun(colorAt, x, y, color);
   }
 
   // Cells currently occupied by airborne pieces (a new endless-mode wave
@@ -165,12 +247,13 @@ export class GameEngine {
   }
 
   private generateViruses(level: number): void {
-    const virusCount = getVirusCount(level);
+    const sprint = this.gameMode === GameMode.SPRINT;
+    const virusCount = sprint ? SPRINT_GERMS : getVirusCount(level);
     const viruses: Virus[] = [];
-    const colors = Object.values(Color) as Color[];
+    const colors = this.palette;
     const occupied = this.fallingOccupancy();
 
-    const boardUsage = Math.min(0.5 + (level * 0.02), 0.85);
+    const boardUsage = sprint ? SPRINT_BOARD_USAGE : Math.min(0.5 + (level * 0.02), 0.85);
     const minY = Math.floor(this.board.cells.length * (1 - boardUsage));
     const maxY = this.board.cells.length - 1;
 
@@ -180,15 +263,15 @@ export class GameEngine {
 
       while (!placed && attempts < 200) {
         attempts++;
-        const x = Math.floor(Math.random() * this.board.cells[0].length);
-        const y = Math.floor(Math.random() * (maxY - minY + 1)) + minY;
+        const x = this.rng.nextInt(this.board.cells[0].length);
+        const y = this.rng.nextInt(maxY - minY + 1) + minY;
 
         if (!this.board.isEmpty(x, y) || occupied.has(`${x},${y}`)) continue;
         if (viruses.some(v => v.position.x === x && v.position.y === y)) continue;
 
         // Pick a color that doesn't create a pre-made run; if every color
         // would, try a different cell
-        const colorOrder = [...colors].sort(() => Math.random() - 0.5);
+        const colorOrder = this.rng.shuffle(colors);
         const safeColor = colorOrder.find(c => !this.wouldCreateRun(x, y, c, viruses));
         if (!safeColor) continue;
 
@@ -205,10 +288,31 @@ export class GameEngine {
 
     deltaTime = Math.min(deltaTime, 100);
 
+    this.accumulator += deltaTime;
+
+    while (this.accumulator >= this.FIXED_TIMESTEP && this.gameState === GameState.PLAYING) {
+      this.step();
+      this.accumulator -= this.FIXED_TIMESTEP;
+    }
+  }
+
+  // Advance the simulation by exactly one fixed tick. The whole run is a
+  // function of the seed and the input applied between ticks, which is what
+  // replays (and headless drivers) rely on.
+  step(): void {
+    if (this.gameState !== GameState.PLAYING) return;
+    this.tick++;
+
+    if (this.stats.timeLeftMs !== null) {
+      this.runClock();
+      if (this.gameState !== GameState.PLAYING) return;
+    }
+    if (this.stats.elapsedMs !== null) this.runStopwatch();
+
     // During an Endless wave change the tray sits cleared (old capsules gone)
     // for a short beat before the next germs drop in
     if (this.waveDelay > 0) {
-      this.waveDelay -= deltaTime;
+      this.waveDelay -= this.FIXED_TIMESTEP;
       if (this.waveDelay <= 0) {
         this.waveDelay = 0;
         this.spawnNextWaveGerms();
@@ -216,14 +320,32 @@ export class GameEngine {
       return;
     }
 
-    this.accumulator += deltaTime;
+    this.fixedUpdate(this.FIXED_TIMESTEP);
+  }
 
-    while (this.accumulator >= this.FIXED_TIMESTEP) {
-      this.fixedUpdate(this.FIXED_TIMESTEP);
-      this.accumulator -= this.FIXED_TIMESTEP;
+  // Time attack: the clock only moves on fixed steps, so it stops with
+  // pause() (and whenever update() isn't being called) and replays exactly.
+  // Stats go out once per whole second rather than every tick.
+  private runClock(): void {
+    const shown = Math.ceil(this.stats.timeLeftMs! / 1000);
+    this.stats.timeLeftMs = Math.max(0, this.stats.timeLeftMs! - this.FIXED_TIMESTEP);
+    if (this.stats.timeLeftMs === 0) {
+      this.notifyStatsChange();
+      this.gameOver('timeUp');
+    } else if (Math.ceil(this.stats.timeLeftMs / 1000) !== shown) {
+      this.notifyStatsChange();
     }
   }
 
+  // Sprint: the clock is the tick count times the fixed step, so a clear
+  // time is exact to the millisecond whatever the frame rate and replays to
+  // the same figure. Stats go out every tenth of a second.
+  private runStopwatch(): void {
+    const shown = Math.floor(this.stats.elapsedMs! / 100);
+    this.stats.elapsedMs = this.tick * this.FIXED_TIMESTEP;
+    if (Math.floor(this.stats.elapsedMs / 100) !== shown) this.notifyStatsChange();
+  }
+
   private fixedUpdate(timestep: number): void {
     const placedAny = this.updateFalling(timestep);
 
@@ -260,6 +382,16 @@ export class GameEngine {
     return pill.canMove(this.board, dx, dy) && !this.entityBlocked(pill, dx, dy);
   }
 
+  // Cells the piece would occupy if dropped right now: it stops on the
+  // board or on another airborne piece, exactly as dropPill would
+  getLandingPositions(pill: Controllable): Position[] {
+    let dy = 0;
+    while (pill.canMove(this.board, 0, dy + 1) && !this.entityBlocked(pill, 0, dy + 1)) {
+      dy++;
+    }
+    return pill.getPositions().map(pos => ({ x: pos.x, y: pos.y + dy }));
+  }
+
   // Smooth gravity: each piece accumulates sub-cell fall progress. Held
   // pieces are suspended. A piece resting on support uses fallOffset as a
   // lock timer, so the player still has a moment to slide or rotate it.
@@ -290,10 +422,19 @@ export class GameEngine {
           if (pill === this.selectedPill) {
             this.selectedPill = null;
           }
+          if (this.hint?.pieceId === pill.id) {
+            this.hint = null;
+          }
           if (pill instanceof Pill) {
             this.stats.capsulesPlaced++;
           }
-          this.onFeedback?.({ type: 'land' });
+          const colors = pill instanceof Pill ? pill.colors : [(pill as SinglePill).color];
+          this.events.emit({
+            type: 'pieceLocked',
+            pieceId: pill.id,
+            cells: pill.getPositions().map((pos, i) => ({ x: pos.x, y: pos.y, color: colors[i] })),
+            capsule: pill instanceof Pill,
+          });
           placedAny = true;
           break;
         }
@@ -315,7 +456,12 @@ export class GameEngine {
   // How far the run has escalated. In Endless each cleared wave cranks the
   // pressure up; Classic levels are self-contained so there's no carry-over.
   private waveIndex(): number {
-    return this.gameMode === GameMode.ENDLESS ? Math.max(0, this.stats.level - 1) : 0;
+    return this.playsInWaves() ? Math.max(0, this.stats.level - 1) : 0;
+  }
+
+  // Endless, time attack and expert bring a new wave when the tray is cleared
+  private playsInWaves(): boolean {
+    return this.gameMode === GameMode.ENDLESS || this.gameMode === GameMode.TIME_ATTACK || this.gameMode === GameMode.EXPERT;
   }
 
   // Capsules drift a little faster each Endless wave (never below a floor)
@@ -331,6 +477,8 @@ export class GameEngine {
   }
 
   private maxConcurrentCapsules(): number {
+    // Puzzles are about planning each capsule, so they come one at a time
+    if (this.puzzle) return 1;
     // Several capsules share the sky from the outset (Germ Buster style),
     // then more are added as the run progresses
     let max = this.difficulty.baseConcurrent;
@@ -362,7 +510,7 @@ export class GameEngine {
   // occupies (x, 0) and (x + 1, 0) when it enters.
   private openEntryColumns(): number[] {
     const columns: number[] = [];
-    for (let x = 0; x < BOARD_WIDTH - 1; x++) {
+    for (let x = 0; x < this.board.width - 1; x++) {
       if (this.board.isEmpty(x, 0) && this.board.isEmpty(x + 1, 0)) {
         columns.push(x);
       }
@@ -372,11 +520,13 @@ export class GameEngine {
 
   private trySpawnPill(): void {
     if (!this.nextPill) return;
+    // A puzzle's move limit caps how many capsules ever enter
+    if (this.stats.movesLeft === 0) return;
 
     // Game over when the pile walls off the top: no entry pair is free
     const openColumns = this.openEntryColumns();
     if (openColumns.length === 0) {
-      this.gameOver();
+      this.gameOver('toppedOut');
       return;
     }
 
@@ -397,20 +547,115 @@ export class GameEngine {
 
     // Capsules enter at varying positions across the top, as in Germ Buster,
     // since several can be airborne at once. Bias toward the center columns.
-    const centered = clearColumns.includes(SPAWN_X) && Math.random() < 0.4;
-    const spawnX = centered
-      ? SPAWN_X
-      : clearColumns[Math.floor(Math.random() * clearColumns.length)];
+    // Puzzles always use the center when it's free, so solutions written
+    // for a level stay valid
+    const centered =
+      clearColumns.includes(this.board.spawnX) && (this.puzzle !== null || this.rng.next() < 0.4);
+    const spawnX = centered ? this.board.spawnX : this.rng.pick(clearColumns);
 
     const pill = this.nextPill;
     pill.position = { x: spawnX, y: 0 };
     this.fallingPills.push(pill);
-    this.nextPill = Pill.generateRandomPill();
+    if (this.stats.movesLeft !== null) this.stats.movesLeft--;
+    this.nextPill = this.generatePill();
+    this.dropGarbage();
     this.spawnCooldown = this.effectiveSpawnCooldown();
+    this.events.emit({ type: 'capsuleSpawned', pieceId: pill.id, column: spawnX, colors: [...pill.colors] });
     this.notifyStatsChange();
     this.notifyBoardChange();
   }
 
+  // Queued versus garbage enters along the top row, one half per free
+  // column (random, but from the run's stream), and plummets like debris.
+  // Halves with no free column to enter are lost.
+  private dropGarbage(): void {
+    if (this.pendingGarbage.length === 0) return;
+    const occupied = this.fallingOccupancy();
+    const columns = this.rng
+      .shuffle(Array.from({ length: this.board.width }, (_, x) => x))
+      .filter(x => this.board.isEmpty(x, 0) && !occupied.has(`${x},0`));
+    this.pendingGarbage.slice(0, columns.length).forEach((color, i) => {
+      const piece = new SinglePill(color, { x: columns[i], y: 0 }, false);
+      piece.id = this.nextEntityId('garbage');
+      piece.debris = true;
+      this.fallingPills.push(piece);
+    });
+    this.pendingGarbage = [];
+  }
+
+  // Versus: halves the opponent's combo sent this way
+  receiveGarbage(colors: Color[]): void {
+    if (this.gameState !== GameState.PLAYING || colors.length === 0) return;
+    this.record({ type: 'garbage', colors: [...colors] });
+    this.pendingGarbage.push(...colors);
+    this.notifyStatsChange();
+  }
+
+  // Garbage halves waiting to drop in
+  getPendingGarbage(): readonly Color[] {
+    return this.pendingGarbage;
+  }
+
+  private nextEntityId(prefix: string): string {
+    return `${prefix}-${this.seed.toString(36)}-${++this.entitySeq}`;
+  }
+
+  private generatePill(): Pill {
+    const pill = this.puzzle ? this.nextPuzzleCapsule(this.puzzle) : Pill.generateRandomPill(this.rng, this.palette);
+    pill.id = this.nextEntityId('pill');
+    return pill;
+  }
+
+  // The puzzle's capsule sequence, looping once it runs out
+  private nextPuzzleCapsule(puzzle: PuzzleLevel): Pill {
+    const [first, second] = puzzle.capsules[this.puzzleCapsuleIndex % puzzle.capsules.length];
+    this.puzzleCapsuleIndex++;
+    return new Pill([first, second]);
+  }
+
+  private createDebris(color: Color, position: Position): SinglePill {
+    const piece = new SinglePill(color, position, true);
+    piece.id = this.nextEntityId('single');
+    piece.debris = true;
+    return piece;
+  }
+
+  // --- Input recording ---
+
+  private record(command: ReplayCommand): void {
+    this.inputLog?.push({ tick: this.tick, command });
+  }
+
+  // The run so far as a replayable input log, or null if it can't be
+  // reproduced from a seed (resumed runs)
+  getReplay(): ReplayLog | null {
+    if (!this.inputLog) return null;
+    return {
+      version: 1,
+      seed: this.seed,
+      level: this.runStart.level,
+      initialScore: this.runStart.initialScore,
+      speedSetting: this.stats.speedSetting,
+      mode: this.gameMode,
+      commands: [...this.inputLog],
+      ticks: this.tick,
+      finalScore: this.stats.score,
+      finalState: this.gameState,
+      recordedAt: new Date().toISOString(),
+      ...(this.puzzle ? { puzzle: this.puzzle } : {}),
+      ...(this.isStandardBoard() ? {} : { boardSize: { width: this.board.width, height: this.board.height } }),
+      ...(this.palette.length === DEFAULT_COLOR_COUNT ? {} : { colorCount: this.palette.length }),
+    };
+  }
+
+  private isStandardBoard(): boolean {
+    return this.board.width === BOARD_WIDTH && this.board.height === BOARD_HEIGHT;
+  }
+
+  getTick(): number {
+    return this.tick;
+  }
+
   // --- Touch controls: grab / drag / release / tap-rotate ---
 
   // Grab the piece under the finger. As in Germ Buster the capsule KEEPS
@@ -418,6 +663,7 @@ export class GameEngine {
   // faster, but it can never be frozen in mid-air.
   grabPill(pillId: string): boolean {
     if (this.gameState !== GameState.PLAYING) return false;
+    this.record({ type: 'grab', pillId });
     const pill = this.fallingPills.find(p => p.id === pillId && p.isActive);
     if (!pill || !pill.isUserControllable) return false;
 
@@ -440,14 +686,15 @@ export class GameEngine {
     const pill = this.selectedPill;
     if (!pill || !pill.held || !pill.isActive || !this.grabStart) return;
     if (this.gameState !== GameState.PLAYING) return;
+    this.record({ type: 'drag', translationX, translationY });
 
     const targetX = this.grabStart.x + translationX;
 
-    let guard = BOARD_WIDTH;
+    let guard = this.board.width;
     while (guard-- > 0 && Math.round(targetX) > pill.position.x && this.canPieceMove(pill, 1, 0)) {
       pill.move(1, 0);
     }
-    guard = BOARD_WIDTH;
+    guard = this.board.width;
     while (guard-- > 0 && Math.round(targetX) < pill.position.x && this.canPieceMove(pill, -1, 0)) {
       pill.move(-1, 0);
     }
@@ -470,6 +717,7 @@ export class GameEngine {
   releaseHeldPill(): void {
     const pill = this.selectedPill;
     if (!pill || !pill.held) return;
+    this.record({ type: 'release' });
 
     pill.held = false;
     pill.fastDrop = false;
@@ -483,13 +731,14 @@ export class GameEngine {
   // Tap a capsule to rotate it clockwise (with wall kicks)
   rotatePillById(pillId: string): boolean {
     if (this.gameState !== GameState.PLAYING) return false;
+    this.record({ type: 'rotateById', pillId });
     const pill = this.fallingPills.find(p => p.id === pillId && p.isActive);
     if (!pill || !pill.isUserControllable) return false;
 
     this.selectedPill = pill;
     if (pill instanceof Pill) {
       if (pill.tryRotateWithKicks(this.board)) {
-        this.soundManager.playRotate();
+        this.events.emit({ type: 'rotated' });
         this.notifyBoardChange();
         return true;
       }
@@ -587,6 +836,7 @@ export class GameEngine {
 
   movePill(direction: Direction): void {
     if (this.fallingPills.length === 0 || this.gameState !== GameState.PLAYING) return;
+    this.record({ type: 'move', direction });
 
     const currentPill = this.resolveControlledPill();
     if (!currentPill) return;
@@ -608,21 +858,22 @@ export class GameEngine {
     if (this.canPieceMove(currentPill, dx, dy)) {
       currentPill.move(dx, dy);
       if (direction !== Direction.DOWN) {
-        this.soundManager.playMove();
+        this.events.emit({ type: 'moved' });
       }
       this.notifyBoardChange();
     }
   }
 
-  rotatePill(): void {
+  rotatePill(counterClockwise: boolean = false): void {
     if (this.fallingPills.length === 0 || this.gameState !== GameState.PLAYING) return;
+    this.record(counterClockwise ? { type: 'rotate', counterClockwise } : { type: 'rotate' });
 
     const currentPill = this.resolveControlledPill();
     if (!currentPill) return;
 
     if (currentPill instanceof Pill) {
-      if (currentPill.tryRotateWithKicks(this.board)) {
-        this.soundManager.playRotate();
+      if (currentPill.tryRotateWithKicks(this.board, counterClockwise)) {
+        this.events.emit({ type: 'rotated' });
         this.notifyBoardChange();
       }
     }
@@ -630,6 +881,7 @@ export class GameEngine {
 
   dropPill(): void {
     if (this.fallingPills.length === 0 || this.gameState !== GameState.PLAYING) return;
+    this.record({ type: 'drop' });
 
     const currentPill = this.resolveControlledPill();
     if (!currentPill) return;
@@ -639,29 +891,42 @@ export class GameEngine {
     }
     currentPill.fallOffset = GROUNDED_RELEASE_LOCK;
 
-    this.soundManager.playDrop();
+    this.events.emit({ type: 'hardDropped' });
     this.notifyBoardChange();
   }
 
   setFastDrop(fast: boolean): void {
+    if (this.gameState !== GameState.PLAYING) return;
     let pill = this.selectedPill;
-    if ((!pill || !this.fallingPills.includes(pill)) && fast) {
-      pill = this.findBestPillForGesture();
-      if (pill) this.selectPill(pill);
-    }
-    if (pill && this.fallingPills.includes(pill)) {
-      pill.fastDrop = fast;
-    }
+    const picking = (!pill || !this.fallingPills.includes(pill)) && fast;
+    if (picking) pill = this.findBestPillForGesture();
+    if (!pill || !this.fallingPills.includes(pill)) return;
+    this.record({ type: 'fastDrop', fast });
+    if (picking) this.selectPill(pill);
+    pill.fastDrop = fast;
   }
 
   // Cycle keyboard selection through the falling pieces (Tab on web)
   switchToNextPill(): void {
+    if (this.gameState !== GameState.PLAYING) return;
     const pills = this.fallingPills.filter(p => p.isActive && p.isUserControllable);
     if (pills.length === 0) return;
+    this.record({ type: 'switch' });
     const idx = this.selectedPill ? pills.indexOf(this.selectedPill) : -1;
     this.selectPill(pills[(idx + 1) % pills.length]);
   }
 
+  // Put keyboard control on one piece by id, as bots do. Picking the piece
+  // that's already selected changes nothing and isn't logged.
+  selectPillById(pillId: string): boolean {
+    if (this.gameState !== GameState.PLAYING) return false;
+    if (this.selectedPill?.id === pillId && this.fallingPills.includes(this.selectedPill)) return true;
+    const pill = this.fallingPills.find(p => p.id === pillId && p.isActive && p.isUserControllable);
+    if (!pill) return false;
+    this.record({ type: 'select', pillId });
+    return this.selectPill(pill);
+  }
+
   // --- Matching, chains, and floating-piece release ---
 
   private processMatches(): void {
@@ -669,28 +934,41 @@ export class GameEngine {
 
     if (matches.length === 0) {
       // Chain is over once everything has settled with no new matches
-      if (this.fallingPills.length === 0) {
+      if (this.fallingPills.length === 0 && this.combo > 0) {
+        this.events.emit({ type: 'chainEnded', length: this.combo });
         this.combo = 0;
       }
       this.checkEndConditions();
       return;
     }
 
+    // Color of each run and the cells in them, read before the clear
+    // empties them (runs that cross share a cell, so count it once)
+    const colors = matches
+      .map(run => this.board.getCell(run[0].x, run[0].y)?.color)
+      .filter((color): color is Color => !!color);
+    const clearedCells = new Map<string, CellColor & { germ: boolean }>();
+    for (const { x, y } of matches.flat()) {
+      const cell = this.board.getCell(x, y);
+      if (!cell?.color) continue;
+      clearedCells.set(`${x},${y}`, { x, y, color: cell.color, germ: cell.type === CellType.VIRUS });
+    }
+    const germs = [...clearedCells.values()].filter(cell => cell.germ).length;
     const { clearedCount, splits } = this.matchingSystem.clearMatches(matches);
 
     if (clearedCount > 0) {
       this.combo++;
       this.stats.score += clearedCount * 100 * this.combo;
       this.stats.linesCleared += Math.floor(clearedCount / 4);
-      this.soundManager.playMatch();
-      if (this.combo > 1) this.soundManager.playCombo();
-      this.onFeedback?.({ type: 'match', cleared: clearedCount, combo: this.combo });
+      const timeAddedMs = this.stats.timeLeftMs !== null ? germs * TIME_PER_GERM_MS * this.combo : 0;
+      if (timeAddedMs > 0) this.stats.timeLeftMs! += timeAddedMs;
+      this.events.emit({ type: 'cellsCleared', cells: [...clearedCells.values()] });
+      this.events.emit({ type: 'chainStep', combo: this.combo, cleared: clearedCount, colors, timeAddedMs });
+      if (this.stats.elapsedMs !== null) this.takeSplits();
 
       // Rare multi-cell splits reported by the matching system
       splits.forEach(split => {
-        const piece = new SinglePill(split.color, split.position, true);
-        piece.debris = true;
-        this.fallingPills.push(piece);
+        this.fallingPills.push(this.createDebris(split.color, split.position));
       });
 
       // Germ Buster signature: unsupported pieces break loose and plummet
@@ -713,8 +991,8 @@ export class GameEngine {
 
       // Collect pill cells grouped by capsule id
       const groups = new Map<string, Array<{ position: Position; color: Color }>>();
-      for (let y = 0; y < BOARD_HEIGHT; y++) {
-        for (let x = 0; x < BOARD_WIDTH; x++) {
+      for (let y = 0; y < this.board.height; y++) {
+        for (let x = 0; x < this.board.width; x++) {
           const cell = this.board.getCell(x, y);
           if (cell && cell.type === CellType.PILL && cell.color) {
             const key = cell.pillId ?? `loose-${x}-${y}`;
@@ -738,9 +1016,7 @@ export class GameEngine {
           this.fallingPills.push(piece);
         } else {
           cells.forEach(({ position, color }) => {
-            const piece = new SinglePill(color, position, true);
-            piece.debris = true;
-            this.fallingPills.push(piece);
+            this.fallingPills.push(this.createDebris(color, position));
           });
         }
         releasedAny = true;
@@ -750,7 +1026,7 @@ export class GameEngine {
 
   private canGroupFall(cells: Array<{ position: Position }>): boolean {
     for (const { position } of cells) {
-      if (position.y >= BOARD_HEIGHT - 1) return false;
+      if (position.y >= this.board.height - 1) return false;
       const below = this.board.getCell(position.x, position.y + 1);
       if (below && below.type !== CellType.EMPTY) {
         // Support from a cell of the same group doesn't count as support
@@ -767,8 +1043,18 @@ export class GameEngine {
     this.stats.virusCount = this.board.countViruses();
     this.notifyStatsChange();
 
+    if (this.puzzle) {
+      if (goalsMet(this.puzzle.goals, this.board, this.stats.score)) {
+        this.levelComplete();
+      } else if (this.stats.movesLeft === 0 && this.fallingPills.length === 0) {
+        // Last capsule used and everything has settled short of the goals
+        this.gameOver('outOfMoves');
+      }
+      return;
+    }
+
     if (this.stats.virusCount === 0) {
-      if (this.gameMode === GameMode.ENDLESS) {
+      if (this.playsInWaves()) {
         this.startNextWave();
       } else {
         this.levelComplete();
@@ -780,13 +1066,15 @@ export class GameEngine {
   // brings the next wave without interrupting play — capsules already in
   // the air keep falling, leftover pill halves stay where they settled
   private startNextWave(): void {
-    this.stats.score += 1000 * this.stats.level;
+    this.stats.score += this.clearBonus();
+    if (this.stats.timeLeftMs !== null) this.stats.timeLeftMs += TIME_WAVE_BONUS_MS;
     this.stats.level++;
+    this.stats.hintsUsed = 0;
     // Wipe the tray clean: the capsules you used clear off before the next
     // germs arrive (rather than the new germs landing among old halves)
     this.clearPlayfield();
     this.currentFallSpeed = this.effectiveFallSpeed();
-    this.soundManager.playLevelComplete();
+    this.events.emit({ type: 'waveCleared', level: this.stats.level - 1 });
     this.notifyStatsChange();
     this.notifyBoardChange();
     // Hold the cleared tray for a beat, then drop in the new germs
@@ -796,8 +1084,8 @@ export class GameEngine {
   // Remove every capsule — settled halves and anything still airborne — so
   // the next wave starts on a clean tray (germs remain since they're cleared)
   private clearPlayfield(): void {
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = 0; y < this.board.height; y++) {
+      for (let x = 0; x < this.board.width; x++) {
         const cell = this.board.getCell(x, y);
         if (cell && cell.type === CellType.PILL) {
           this.board.setCell(x, y, { type: CellType.EMPTY, color: null });
@@ -807,122 +1095,204 @@ export class GameEngine {
     this.fallingPills = [];
     this.selectedPill = null;
     this.grabStart = null;
+    // Pieces still in the air are gone, so any chain they'd continue is over
+    if (this.combo > 0) this.events.emit({ type: 'chainEnded', length: this.combo });
     this.combo = 0;
+    this.hint = null;
   }
 
   // The second half of an Endless wave change: germs appear and play resumes
   private spawnNextWaveGerms(): void {
     this.generateViruses(this.stats.level);
     this.stats.virusCount = this.board.countViruses();
-    if (!this.nextPill) this.nextPill = Pill.generateRandomPill();
+    if (!this.nextPill) this.nextPill = this.generatePill();
     this.spawnCooldown = 0;
-    this.onFeedback?.({ type: 'wave', level: this.stats.level });
+    this.events.emit({ type: 'waveStarted', level: this.stats.level });
     this.notifyStatsChange();
     this.notifyBoardChange();
     this.trySpawnPill();
   }
 
-  private gameOver(): void {
-    this.soundManager.playGameOver();
+  // One split per SPRINT_SPLIT_GERMS germs gone; a big chain can pass more
+  // than one mark at once, and they share its time
+  private takeSplits(): void {
+    const cleared = SPRINT_GERMS - this.board.countViruses();
+    while ((this.splits.length + 1) * SPRINT_SPLIT_GERMS <= cleared) {
+      const elapsedMs = Math.round(this.stats.elapsedMs!);
+      this.splits.push(elapsedMs);
+      this.events.emit({ type: 'split', germs: this.splits.length * SPRINT_SPLIT_GERMS, elapsedMs });
+    }
+  }
+
+  // Sprint clock readings at each split so far, in ms
+  getSplits(): number[] {
+    return [...this.splits];
+  }
+
+  private gameOver(cause: GameOverCause): void {
+    this.events.emit({ type: 'gameOver', cause });
     this.changeState(GameState.GAME_OVER);
   }
 
   private levelComplete(): void {
-    this.soundManager.playLevelComplete();
+    this.events.emit({ type: 'levelComplete' });
     this.changeState(GameState.LEVEL_COMPLETE);
-    this.stats.score += 1000 * this.stats.level;
+    this.stats.score += this.clearBonus();
+    this.notifyStatsChange();
+  }
+
+  // 1000 per level, less a share for every hint taken on the way
+  private clearBonus(): number {
+    const share = Math.max(0, 1 - this.stats.hintsUsed * HINT_BONUS_PENALTY);
+    return Math.round(1000 * this.stats.level * share);
+  }
+
+  // --- Hints ---
+
+  // Spend one of this level's hints on the controlled piece: searches its
+  // reachable landing spots (playing out the clears each would cause) and
+  // keeps the best one for the board to draw. False when the budget is
+  // spent or there's nothing to advise on.
+  requestHint(): boolean {
+    if (this.gameState !== GameState.PLAYING) return false;
+    this.record({ type: 'hint' });
+
+    const piece = this.resolveControlledPill();
+    if (!piece) return false;
+    // Asking again about the same piece is free
+    if (this.hint?.pieceId === piece.id) return true;
+    if (this.stats.hintsUsed >= HINTS_PER_LEVEL) return false;
+    const best = findBestPlacement(this.board, piece);
+    if (!best) return false;
+
+    this.hint = { pieceId: piece.id, placement: best };
+    this.stats.hintsUsed++;
     this.notifyStatsChange();
+    this.notifyBoardChange();
+    return true;
+  }
+
+  getHint(): Placement | null {
+    if (this.hint && !this.fallingPills.some(p => p.id === this.hint!.pieceId)) {
+      this.hint = null;
+    }
+    return this.hint?.placement ?? null;
+  }
+
+  getHintsLeft(): number {
+    return Math.max(0, HINTS_PER_LEVEL - this.stats.hintsUsed);
   }
 
   pause(): void {
     if (this.gameState === GameState.PLAYING) {
+      this.record({ type: 'pause' });
       this.changeState(GameState.PAUSED);
+      this.events.emit({ type: 'paused' });
     }
   }
 
   resume(): void {
     if (this.gameState === GameState.PAUSED) {
+      this.record({ type: 'resume' });
       this.changeState(GameState.PLAYING);
+      this.events.emit({ type: 'resumed' });
     }
   }
 
   private changeState(newState: GameState): void {
     this.gameState = newState;
-    if (this.onStateChange) {
-      this.onStateChange(newState);
-    }
+    this.events.emit({ type: 'stateChanged', state: newState });
   }
 
   private notifyStatsChange(): void {
-    if (this.onStatsChange) {
-      this.onStatsChange({ ...this.stats });
-    }
+    this.events.emit({ type: 'statsChanged', stats: { ...this.stats } });
   }
 
   private notifyBoardChange(): void {
-    if (this.onBoardChange) {
-      this.onBoardChange();
-    }
+    this.events.emit({ type: 'boardChanged' });
   }
 
-  // --- Endless save / resume ---
+  // --- Snapshots ---
 
-  // Snapshot the resumable state of an Endless run. Only settled cells are
-  // stored; airborne capsules are dropped (they respawn on load).
-  serializeEndless(): EndlessSnapshot {
-    const cells: EndlessSnapshot['cells'] = [];
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+  // The complete state of the run, in any mode and at any moment: airborne
+  // pieces, the generator, the fixed-step accumulator and the input log
+  // included. deserialize() on any engine picks up exactly where this left
+  // off. A snapshot doesn't carry the listeners on engine.events.
+  serialize(): EngineSnapshot {
+    const cells: EngineSnapshot['cells'] = [];
+    for (let y = 0; y < this.board.height; y++) {
+      for (let x = 0; x < this.board.width; x++) {
         const cell = this.board.getCell(x, y);
         if (cell && cell.type !== CellType.EMPTY && cell.color) {
           cells.push({ x, y, type: cell.type, color: cell.color, pillId: cell.pillId });
         }
       }
     }
-    const nextColors = this.nextPill
-      ? ([...this.nextPill.colors] as [Color, Color])
-      : ([Color.RED, Color.BLUE] as [Color, Color]);
-
     return {
-      version: 1,
+      version: ENGINE_SNAPSHOT_VERSION,
+      mode: this.gameMode,
+      state: this.gameState,
+      boardSize: { width: this.board.width, height: this.board.height },
       cells,
-      score: this.stats.score,
-      wave: this.stats.level,
-      capsulesPlaced: this.stats.capsulesPlaced,
-      speedSetting: this.stats.speedSetting,
-      nextColors,
-      lastPlayed: '',
+      stats: { ...this.stats },
+      pieces: this.fallingPills.map(snapshotPiece),
+      selectedPieceId: this.selectedPill?.id ?? null,
+      nextPiece: this.nextPill ? snapshotPiece(this.nextPill) : null,
+      grabStart: this.grabStart ? { ...this.grabStart } : null,
+      combo: this.combo,
+      waveDelay: this.waveDelay,
+      spawnCooldown: this.spawnCooldown,
+      accumulator: this.accumulator,
+      seed: this.seed,
+      rngState: this.rng.getState(),
+      tick: this.tick,
+      entitySeq: this.entitySeq,
+      inputLog: this.inputLog ? [...this.inputLog] : null,
+      runStart: { ...this.runStart },
+      hint: this.hint,
+      puzzle: this.puzzle,
+      puzzleCapsuleIndex: this.puzzleCapsuleIndex,
+      pendingGarbage: [...this.pendingGarbage],
+      palette: [...this.palette],
+      splits: [...this.splits],
+      lastPlayed: new Date().toISOString(),
     };
   }
 
-  // Restore an Endless run from a snapshot and resume play immediately.
-  loadEndless(snapshot: EndlessSnapshot): void {
-    this.stats = {
-      score: snapshot.score,
-      level: snapshot.wave,
-      virusCount: 0,
-      linesCleared: 0,
-      capsulesPlaced: snapshot.capsulesPlaced,
-      currentSpeedLevel: 0,
-      speedSetting: snapshot.speedSetting,
-    };
-    this.gameMode = GameMode.ENDLESS;
-    this.board.clear();
+  // Restore a run from serialize() (older saves go through migrateSnapshot
+  // first). Play continues in the snapshot's state: a paused run stays
+  // paused.
+  deserialize(snapshot: EngineSnapshot): void {
+    this.gameMode = snapshot.mode;
+    this.puzzle = snapshot.puzzle;
+    this.puzzleCapsuleIndex = snapshot.puzzleCapsuleIndex;
+    this.stats = { ...snapshot.stats };
+    this.seed = snapshot.seed >>> 0;
+    this.rng = new SeededRandom(this.seed);
+    this.rng.setState(snapshot.rngState);
+    this.tick = snapshot.tick;
+    this.entitySeq = snapshot.entitySeq;
+    this.inputLog = snapshot.inputLog ? [...snapshot.inputLog] : null;
+    this.runStart = { ...snapshot.runStart };
+    this.board.resize(snapshot.boardSize.width, snapshot.boardSize.height);
     for (const c of snapshot.cells) {
       this.board.setCell(c.x, c.y, { type: c.type, color: c.color, pillId: c.pillId });
     }
-    this.stats.virusCount = this.board.countViruses();
-    this.fallingPills = [];
-    this.selectedPill = null;
-    this.grabStart = null;
-    this.combo = 0;
-    this.nextPill = new Pill([snapshot.nextColors[0], snapshot.nextColors[1]]);
-    this.difficulty = DIFFICULTY_SETTINGS[snapshot.speedSetting];
+    this.palette = [...snapshot.palette];
+    this.fallingPills = snapshot.pieces.map(restorePiece);
+    this.selectedPill = this.fallingPills.find(p => p.id === snapshot.selectedPieceId) ?? null;
+    this.nextPill = snapshot.nextPiece ? (restorePiece(snapshot.nextPiece) as Pill) : null;
+    this.grabStart = snapshot.grabStart ? { ...snapshot.grabStart } : null;
+    this.combo = snapshot.combo;
+    this.waveDelay = snapshot.waveDelay;
+    this.hint = snapshot.hint;
+    this.pendingGarbage = [...snapshot.pendingGarbage];
+    this.splits = [...snapshot.splits];
+    this.difficulty = DIFFICULTY_SETTINGS[snapshot.stats.speedSetting];
     this.currentFallSpeed = this.effectiveFallSpeed();
-    this.spawnCooldown = 0;
-    this.accumulator = 0;
-    this.changeState(GameState.PLAYING);
-    this.trySpawnPill();
+    this.spawnCooldown = snapshot.spawnCooldown;
+    this.accumulator = snapshot.accumulator;
+    this.changeState(snapshot.state);
     this.notifyStatsChange();
     this.notifyBoardChange();
   }
@@ -947,6 +1317,11 @@ export class GameEngine {
     return { ...this.stats };
   }
 
+  // Seed of the current run; pass it back to startGame to replay the board
+  getSeed(): number {
+    return this.seed;
+  }
+
   findPillAt(boardX: number, boardY: number): Controllable | null {
     for (const pill of this.fallingPills) {
       if (!pill.isActive) continue;
@@ -961,7 +1336,9 @@ export class GameEngine {
     return null;
   }
 
-  selectPill(pill: Controllable | null): boolean {
+  // Not logged: inputs that select on the way call these, and outside
+  // callers go through selectPillById so replays see the switch
+  private selectPill(pill: Controllable | null): boolean {
     if (pill && this.fallingPills.includes(pill)) {
       this.selectedPill = pill;
       this.notifyBoardChange();
@@ -970,7 +1347,7 @@ export class GameEngine {
     return false;
   }
 
-  deselectPill(): void {
+  private deselectPill(): void {
     if (this.selectedPill) {
       this.selectedPill = null;
       this.notifyBoardChange();
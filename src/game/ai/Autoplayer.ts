@@ -0,0 +1,81 @@
+import { GameEngine } from '../GameEngine';
+import { Direction } from '../utils/constants';
+import { SimulationBot } from '../sim/ScriptedBot';
+import {
+  DEFAULT_WEIGHTS,
+  Placement,
+  PlacementWeights,
+  enumeratePlacements,
+  findBestPlacement,
+} from './PlacementSearch';
+
+const samePlacement = (a: Placement, b: Placement): boolean =>
+  a.positions.length === b.positions.length &&
+  a.positions.every((p, i) => p.x === b.positions[i].x && p.y === b.positions[i].y) &&
+  a.colors.every((c, i) => c === b.colors[i]);
+
+// Plays the game through the engine's public input API, one input per
+// reaction window, always working on the lowest airborne piece. The target
+// spot is kept until it becomes unreachable so the bot doesn't dither
+// between equally good columns. Used for the menu's attract demo and as a
+// strong driver for soak runs.
+export class Autoplayer implements SimulationBot {
+  readonly name = 'ai';
+  private target: { pieceId: string; placement: Placement } | null = null;
+  private cooldown = 0;
+
+  // reactionTicks: fixed ticks between inputs (6 ticks ~ 100 ms)
+  constructor(
+    private reactionTicks: number = 6,
+    private weights: PlacementWeights = DEFAULT_WEIGHTS
+  ) {}
+
+  reset(_seed: number): void {
+    this.target = null;
+    this.cooldown = 0;
+  }
+
+  act(engine: GameEngine): void {
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return;
+    }
+    this.cooldown = this.reactionTicks;
+
+    // Grounded pieces are left to lock; re-dropping would restart the timer
+    const board = engine.getBoard();
+    const pieces = engine
+      .getAllFallingPills()
+      .filter(p => p.isActive && p.isUserControllable && p.canMove(board, 0, 1));
+    if (pieces.length === 0) {
+      this.target = null;
+      return;
+    }
+    const piece = pieces.reduce((low, p) => (p.position.y > low.position.y ? p : low));
+    engine.selectPillById(piece.id);
+
+    const placements = enumeratePlacements(board, piece);
+    let route =
+      this.target && this.target.pieceId === piece.id
+        ? placements.find(p => samePlacement(p, this.target!.placement))
+        : undefined;
+    if (!route) {
+      const best = findBestPlacement(board, piece, this.weights);
+      if (!best) return;
+      this.target = { pieceId: piece.id, placement: best };
+      route = best;
+    }
+
+    const next = route.path.find(action => action !== 'down');
+    if (!next) {
+      engine.dropPill();
+    } else if (route.path[0] === 'down') {
+      // The way there runs under an overhang: descend before sliding
+      engine.movePill(Direction.DOWN);
+    } else if (next === 'rotate') {
+      engine.rotatePill();
+    } else {
+      engine.movePill(next === 'left' ? Direction.LEFT : Direction.RIGHT);
+    }
+  }
+}
@@ -0,0 +1,231 @@
+import { Board } from '../entities/Board';
+import { Pill } from '../entities/Pill';
+import { SinglePill } from '../entities/SinglePill';
+import { MatchingSystem } from '../systems/MatchingSystem';
+import { CellType, Color, Orientation } from '../utils/constants';
+import { Controllable, Position } from '../utils/types';
+
+export type PlacementAction = 'left' | 'right' | 'down' | 'rotate';
+
+// A resting spot a falling piece can reach, with the inputs that get it there
+export interface Placement {
+  positions: Position[];
+  colors: Color[];
+  orientation: Orientation | null;
+  path: PlacementAction[];
+}
+
+export interface PlacementScore {
+  germsCleared: number;
+  cellsCleared: number;
+  chain: number;
+  // Same-colored neighbors the landed cells leave behind (setups for later)
+  comboPotential: number;
+  // Germs buried under a different color by this placement
+  germsCovered: number;
+  // Rows between the floor and the highest landed cell
+  landingHeight: number;
+  stackHeight: number;
+  total: number;
+}
+
+export interface ScoredPlacement extends Placement {
+  score: PlacementScore;
+}
+
+export interface PlacementWeights {
+  germ: number;
+  cell: number;
+  chain: number;
+  comboPotential: number;
+  germCovered: number;
+  landing: number;
+  height: number;
+}
+
+export const DEFAULT_WEIGHTS: PlacementWeights = {
+  germ: 120,
+  cell: 8,
+  chain: 45,
+  comboPotential: 7,
+  germCovered: -14,
+  landing: -9,
+  height: -5,
+};
+
+const colorsOf = (piece: Controllable): Color[] =>
+  piece instanceof Pill ? [...piece.colors] : [(piece as SinglePill).color];
+
+// Scratch copy of a piece for searching; never added to an engine
+const clonePiece = (piece: Controllable): Controllable => {
+  if (piece instanceof Pill) {
+    const copy = new Pill([piece.colors[0], piece.colors[1]], piece.position.x);
+    copy.position = { ...piece.position };
+    copy.orientation = piece.orientation;
+    copy.id = piece.id;
+    return copy;
+  }
+  const single = piece as SinglePill;
+  const copy = new SinglePill(single.color, single.position, single.isUserControllable);
+  copy.id = single.id;
+  return copy;
+};
+
+const stateKey = (piece: Controllable): string => {
+  const { x, y } = piece.position;
+  const orientation = piece instanceof Pill ? piece.orientation : '';
+  return `${x},${y},${orientation},${colorsOf(piece).join('/')}`;
+};
+
+// Breadth-first search over everything the player can do to a piece (slide,
+// soft drop, and rotate using Pill.tryRotateWithKicks), collecting every
+// state where it can't fall further. Resting states aren't expanded: the
+// engine's lock timer is already running there, so sliding off a ledge
+// isn't something the bot can count on. Paths are shortest-first, so the
+// first path found to a resting spot is the one to play; rotations are
+// tried before slides so, among equally short paths, the piece turns
+// while it's still high up.
+export const enumeratePlacements = (board: Board, piece: Controllable): Placement[] => {
+  const start = clonePiece(piece);
+  const seen = new Set<string>([stateKey(start)]);
+  const queue: Array<{ piece: Controllable; path: PlacementAction[] }> = [{ piece: start, path: [] }];
+  const placements: Placement[] = [];
+  const landed = new Set<string>();
+
+  while (queue.length > 0) {
+    const { piece: current, path } = queue.shift()!;
+
+    if (!current.canMove(board, 0, 1)) {
+      const positions = current.getPositions().map(p => ({ ...p }));
+      const colors = colorsOf(current);
+      const key = positions.map((p, i) => `${p.x},${p.y}:${colors[i]}`).join('|');
+      if (!landed.has(key)) {
+        landed.add(key);
+        placements.push({
+          positions,
+          colors,
+          orientation: current instanceof Pill ? current.orientation : null,
+          path,
+        });
+      }
+      continue;
+    }
+
+    if (current instanceof Pill) {
+      const next = clonePiece(current) as Pill;
+      if (next.tryRotateWithKicks(board)) {
+        const key = stateKey(next);
+        if (!seen.has(key)) {
+          seen.add(key);
+          queue.push({ piece: next, path: [...path, 'rotate'] });
+        }
+      }
+    }
+
+    const moves: Array<[PlacementAction, number, number]> = [
+      ['left', -1, 0],
+      ['right', 1, 0],
+      ['down', 0, 1],
+    ];
+    for (const [action, dx, dy] of moves) {
+      if (!current.canMove(board, dx, dy)) continue;
+      const next = clonePiece(current);
+      next.move(dx, dy);
+      const key = stateKey(next);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      queue.push({ piece: next, path: [...path, action] });
+    }
+  }
+
+  return placements;
+};
+
+// Set the piece's cells into `board` and play out the resulting chain with
+// MatchingSystem's clear and gravity rules. Mutates the board: pass a
+// scratch copy. Searches that land several pieces in a row need a distinct
+// pillId per piece so gravity keeps them apart.
+export const landPlacement = (
+  board: Board,
+  placement: Placement,
+  pillId: string = 'search'
+): { chain: number; cleared: number; links: number[] } => {
+  placement.positions.forEach((pos, i) => {
+    board.setCell(pos.x, pos.y, { type: CellType.PILL, color: placement.colors[i], pillId });
+  });
+  return new MatchingSystem(board).resolveChains();
+};
+
+// Land the piece on a scratch board, play out the resulting chain with
+// MatchingSystem's clear and gravity rules, and score what's left
+export const scorePlacement = (
+  board: Board,
+  placement: Placement,
+  weights: PlacementWeights = DEFAULT_WEIGHTS
+): PlacementScore => {
+  const scratch = board.clone();
+  const germsBefore = scratch.countViruses();
+
+  const germsCovered = placement.positions.filter((pos, i) => {
+    const below = scratch.getCell(pos.x, pos.y + 1);
+    return below && below.type === CellType.VIRUS && below.color !== placement.colors[i];
+  }).length;
+
+  const { chain, cleared } = landPlacement(scratch, placement);
+  const germsCleared = germsBefore - scratch.countViruses();
+
+  // Runs of 2-3 the landed cells extend, counted only if they survived
+  let comboPotential = 0;
+  placement.positions.forEach((pos, i) => {
+    const cell = scratch.getCell(pos.x, pos.y);
+    if (!cell || cell.color !== placement.colors[i]) return;
+    for (const [dx, dy] of [[1, 0], [-1, 0], [0, 1]] as const) {
+      const neighbor = scratch.getCell(pos.x + dx, pos.y + dy);
+      if (neighbor && neighbor.type !== CellType.EMPTY && neighbor.color === cell.color) {
+        comboPotential += neighbor.type === CellType.VIRUS ? 2 : 1;
+      }
+    }
+  });
+
+  const landingHeight = board.cells.length - Math.min(...placement.positions.map(p => p.y));
+  const stackHeight = scratch.getFilledHeight();
+  const total =
+    germsCleared * weights.germ +
+    cleared * weights.cell +
+    chain * weights.chain +
+    comboPotential * weights.comboPotential +
+    germsCovered * weights.germCovered +
+    landingHeight * weights.landing +
+    stackHeight * weights.height;
+
+  return {
+    germsCleared,
+    cellsCleared: cleared,
+    chain,
+    comboPotential,
+    germsCovered,
+    landingHeight,
+    stackHeight,
+    total,
+  };
+};
+
+export const findBestPlacement = (
+  board: Board,
+  piece: Controllable,
+  weights: PlacementWeights = DEFAULT_WEIGHTS
+): ScoredPlacement | null => {
+  let best: ScoredPlacement | null = null;
+  for (const placement of enumeratePlacements(board, piece)) {
+    const score = scorePlacement(board, placement, weights);
+    // Ties go to the shorter path: less to do before the piece locks
+    if (
+      !best ||
+      score.total > best.score.total ||
+      (score.total === best.score.total && placement.path.length < best.path.length)
+    ) {
+      best = { ...placement, score };
+    }
+  }
+  return best;
+};
@@ -0,0 +1,29 @@
+import { FeedbackSounds, EngineEvent } from '../utils/types';
+
+// The sound (and, through SoundManager, the haptic) for each engine event.
+// Whoever listens to an engine's events and wants them heard calls this;
+// headless runs simply don't.
+export const playFeedbackAudio = (audio: FeedbackSounds, event: EngineEvent): void => {
+  switch (event.type) {
+    case 'moved':
+      audio.playMove();
+      break;
+    case 'rotated':
+      audio.playRotate();
+      break;
+    case 'hardDropped':
+      audio.playDrop();
+      break;
+    case 'chainStep':
+      audio.playMatch();
+      if (event.combo > 1) audio.playCombo();
+      break;
+    case 'waveCleared':
+    case 'levelComplete':
+      audio.playLevelComplete();
+      break;
+    case 'gameOver':
+      audio.playGameOver();
+      break;
+  }
+};
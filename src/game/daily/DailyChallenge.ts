@@ -0,0 +1,48 @@
+import { SeededRandom } from '../utils/random';
+import { DailyResult, SpeedSetting } from '../utils/types';
+
+// Everyone plays the daily board at the same speed, so scores compare
+export const DAILY_SPEED = SpeedSetting.MEDIUM;
+
+const MIN_DAILY_LEVEL = 5;
+const MAX_DAILY_LEVEL = 10;
+
+// The player's local calendar date, YYYY-MM-DD. The day turns over at
+// local midnight, not UTC.
+export const dateKey = (date: Date = new Date()): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const previousDay = (key: string): string => {
+  const [year, month, day] = key.split('-').map(Number);
+  return dateKey(new Date(year, month - 1, day - 1));
+};
+
+// FNV-1a over the date, so the seed needs nothing but the calendar
+export const dailySeed = (key: string): number => {
+  let hash = 0x811c9dc5;
+  for (const char of `pill-panic-daily:${key}`) {
+    hash ^= char.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// Germ level for the day, drawn from the same seed
+export const dailyLevel = (key: string): number =>
+  MIN_DAILY_LEVEL + new SeededRandom(dailySeed(key)).nextInt(MAX_DAILY_LEVEL - MIN_DAILY_LEVEL + 1);
+
+// Consecutive days played, counting back from today; a streak isn't
+// broken until a whole day passes without an attempt
+export const dailyStreak = (history: DailyResult[], today: string = dateKey()): number => {
+  const played = new Set(history.map(result => result.date));
+  let day = played.has(today) ? today : previousDay(today);
+  let streak = 0;
+  while (played.has(day)) {
+    streak++;
+    day = previousDay(day);
+  }
+  return streak;
+};
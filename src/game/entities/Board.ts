@@ -5,34 +5,59 @@ export class Board implements GameBoard {
   cells: Cell[][];
   // Bumped on every mutation so the renderer can memoize the static grid
   version: number = 0;
+  // Size of this tray in cells; the standard one unless a run asks otherwise
+  width: number;
+  height: number;
 
-  constructor() {
+  constructor(width: number = BOARD_WIDTH, height: number = BOARD_HEIGHT) {
+    this.width = width;
+    this.height = height;
     this.cells = this.createEmptyBoard();
   }
 
+  // Left of the two entry columns a capsule takes at the top center
+  get spawnX(): number {
+    return Math.floor(this.width / 2) - 1;
+  }
+
   private createEmptyBoard(): Cell[][] {
-    return Array(BOARD_HEIGHT).fill(null).map(() =>
-      Array(BOARD_WIDTH).fill(null).map(() => ({
+    return Array(this.height).fill(null).map(() =>
+      Array(this.width).fill(null).map(() => ({
         type: CellType.EMPTY,
         color: null,
       }))
     );
   }
 
+  // Independent copy for look-ahead searches (bots, hints) that must not
+  // touch the live board
+  clone(): Board {
+    const copy = new Board(this.width, this.height);
+    copy.cells = this.cells.map(row => row.map(cell => ({ ...cell })));
+    return copy;
+  }
+
   clear(): void {
     this.cells = this.createEmptyBoard();
     this.version++;
   }
 
+  // Empty the board at a new size
+  resize(width: number, height: number): void {
+    this.width = width;
+    this.height = height;
+    this.clear();
+  }
+
   getCell(x: number, y: number): Cell | null {
-    if (x < 0 || x >= BOARD_WIDTH || y < 0 || y >= BOARD_HEIGHT) {
+    if (x < 0 || x >= this.width || y < 0 || y >= this.height) {
       return null;
     }
     return this.cells[y][x];
   }
 
   setCell(x: number, y: number, cell: Cell): void {
-    if (x >= 0 && x < BOARD_WIDTH && y >= 0 && y < BOARD_HEIGHT) {
+    if (x >= 0 && x < this.width && y >= 0 && y < this.height) {
       this.cells[y][x] = cell;
       this.version++;
     }
@@ -44,7 +69,7 @@ export class Board implements GameBoard {
   }
 
   isValidPosition(x: number, y: number): boolean {
-    return x >= 0 && x < BOARD_WIDTH && y >= 0 && y < BOARD_HEIGHT;
+    return x >= 0 && x < this.width && y >= 0 && y < this.height;
   }
 
   addViruses(viruses: Virus[]): void {
@@ -61,8 +86,8 @@ export class Board implements GameBoard {
 
   countViruses(): number {
     let count = 0;
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (this.cells[y][x].type === CellType.VIRUS) {
           count++;
         }
@@ -72,10 +97,10 @@ export class Board implements GameBoard {
   }
 
   getFilledHeight(): number {
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = 0; y < this.height; y++) {
+      for (let x = 0; x < this.width; x++) {
         if (this.cells[y][x].type !== CellType.EMPTY) {
-          return BOARD_HEIGHT - y;
+          return this.height - y;
         }
       }
     }
@@ -1,6 +1,7 @@
 import { Color, Orientation, CellType } from '../utils/constants';
 import { Pill as PillType, Position } from '../utils/types';
 import { Board } from './Board';
+import { SeededRandom } from '../utils/random';
 
 export class Pill implements PillType {
   id: string;
@@ -71,7 +72,16 @@ export class Pill implements PillType {
     return true;
   }
 
-  rotate(): void {
+  rotate(counterClockwise: boolean = false): void {
+    if (counterClockwise) {
+      // The mirror image of a clockwise turn: horizontal to vertical puts
+      // the right half on top, vertical to horizontal puts the top on the left
+      if (this.orientation === Orientation.HORIZONTAL) {
+        this.colors = [this.colors[1], this.colors[0]];
+      }
+      this.orientation = this.orientation === Orientation.HORIZONTAL ? Orientation.VERTICAL : Orientation.HORIZONTAL;
+      return;
+    }
     if (this.orientation === Orientation.HORIZONTAL) {
       // Rotating horizontal to vertical (clockwise)
       // [left, right] becomes [left, right] (left stays top, right becomes bottom)
@@ -86,7 +96,7 @@ export class Pill implements PillType {
     }
   }
 
-  tryRotateWithKicks(board: Board): boolean {
+  tryRotateWithKicks(board: Board, counterClockwise: boolean = false): boolean {
     const originalX = this.position.x;
     const originalY = this.position.y;
     const originalOrientation = this.orientation;
@@ -96,7 +106,7 @@ export class Pill implements PillType {
     const currentPositions = this.getPositions();
 
     // Try rotation at current position first
-    this.rotate();
+    this.rotate(counterClockwise);
     const newPositions = this.getPositions();
     
     // Check if rotation works at current position
@@ -203,11 +213,12 @@ export class Pill implements PillType {
     this.isActive = false;
   }
 
-  static generateRandomPill(): Pill {
-    const colors = Object.values(Color);
-    const color1 = colors[Math.floor(Math.random() * colors.length)];
-    const color2 = colors[Math.floor(Math.random() * colors.length)];
-    return new Pill([color1 as Color, color2 as Color]);
+  // Colors are drawn from the engine's seeded stream so a run's capsule
+  // sequence is reproducible from its seed, and only from the run's palette
+  static generateRandomPill(rng: SeededRandom, colors: readonly Color[]): Pill {
+    const color1 = rng.pick(colors);
+    const color2 = rng.pick(colors);
+    return new Pill([color1, color2]);
   }
 
   // Rebuild a capsule entity from two connected board cells (used when a
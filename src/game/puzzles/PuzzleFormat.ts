@@ -0,0 +1,302 @@
+import { Board } from '../entities/Board';
+import { MatchingSystem, PREMADE_RUN_LENGTH, wouldCreateRun } from '../systems/MatchingSystem';
+import { BOARD_HEIGHT, BOARD_WIDTH, CellType, Color, DEFAULT_COLOR_COUNT, paletteFor } from '../utils/constants';
+import { PuzzleGoal, PuzzleLevel } from '../utils/types';
+
+export const PUZZLE_FORMAT_VERSION = 1;
+
+// Board legend, one character per cell:
+//   .       empty
+//   r b y   germ (red, blue, yellow)
+//   R B Y   settled half capsule of that color
+const GERM_CHARS: Record<string, Color> = { r: Color.RED, b: Color.BLUE, y: Color.YELLOW };
+const PILL_CHARS: Record<string, Color> = { R: Color.RED, B: Color.BLUE, Y: Color.YELLOW };
+const EMPTY_CHAR = '.';
+
+export interface PuzzleCell {
+  x: number;
+  y: number;
+  type: CellType.VIRUS | CellType.PILL;
+  color: Color;
+}
+
+export type PuzzleParseResult =
+  | { ok: true; puzzle: PuzzleLevel }
+  | { ok: false; errors: string[] };
+
+export const cellChar = (type: CellType, color: Color | null): string => {
+  if (type === CellType.EMPTY || !color) return EMPTY_CHAR;
+  const legend = type === CellType.VIRUS ? GERM_CHARS : PILL_CHARS;
+  return Object.keys(legend).find(key => legend[key] === color) ?? EMPTY_CHAR;
+};
+
+// Every non-empty cell of a puzzle board. Unknown characters are skipped
+// here; parsePuzzle reports them.
+export const decodeBoard = (rows: string[]): PuzzleCell[] => {
+  const cells: PuzzleCell[] = [];
+  rows.forEach((row, y) => {
+    [...row].forEach((char, x) => {
+      if (GERM_CHARS[char]) cells.push({ x, y, type: CellType.VIRUS, color: GERM_CHARS[char] });
+      else if (PILL_CHARS[char]) cells.push({ x, y, type: CellType.PILL, color: PILL_CHARS[char] });
+    });
+  });
+  return cells;
+};
+
+// The inverse of decodeBoard: a board's settled cells as format rows
+export const encodeBoard = (board: Board): string[] =>
+  board.cells.map(row => row.map(cell => cellChar(cell.type, cell.color)).join(''));
+
+// Lay a puzzle's cells onto a board. Pre-placed halves are loose (no
+// partner), each under its own id so they break away independently.
+export const applyPuzzleBoard = (board: Board, puzzle: PuzzleLevel): void => {
+  board.clear();
+  for (const cell of decodeBoard(puzzle.board)) {
+    board.setCell(cell.x, cell.y, {
+      type: cell.type,
+      color: cell.color,
+      pillId: cell.type === CellType.PILL ? `puzzle-${cell.x}-${cell.y}` : undefined,
+    });
+  }
+};
+
+export const goalsMet = (goals: PuzzleGoal[], board: Board, score: number): boolean =>
+  goals.every(goal => {
+    switch (goal.type) {
+      case 'clearGerms':
+        return board.countViruses() === 0;
+      case 'clearColor':
+        return !board.cells.some(row =>
+          row.some(cell => cell.type === CellType.VIRUS && cell.color === goal.color)
+        );
+      case 'score':
+        return score >= goal.target;
+    }
+  });
+
+export const describeGoal = (goal: PuzzleGoal): string => {
+  switch (goal.type) {
+    case 'clearGerms':
+      return 'Clear every microbe';
+    case 'clearColor':
+      return `Clear every ${goal.color.toLowerCase()} microbe`;
+    case 'score':
+      return `Score ${goal.target.toLocaleString()}`;
+  }
+};
+
+// Germs that sit in a line of PREMADE_RUN_LENGTH or more same-colored
+// germs, which random generation never produces. parsePuzzle accepts them
+// (the engine copes); the editor holds authored boards to the stricter rule.
+export const premadeRunErrors = (puzzle: PuzzleLevel): string[] => {
+  const germs = decodeBoard(puzzle.board).filter(cell => cell.type === CellType.VIRUS);
+  const germAt = (x: number, y: number): Color | null =>
+    germs.find(cell => cell.x === x && cell.y === y)?.color ?? null;
+  return germs
+    .filter(cell => wouldCreateRun(germAt, cell.x, cell.y, cell.color))
+    .map(cell => `microbe at (${cell.x}, ${cell.y}) is in a line of ${PREMADE_RUN_LENGTH}+ ${cell.color.toLowerCase()}`);
+};
+
+// Puzzles play on the classic palette, the only colors the board legend
+// and share codes can spell
+const PUZZLE_COLORS = paletteFor(DEFAULT_COLOR_COUNT);
+
+const isColor = (value: unknown): value is Color =>
+  PUZZLE_COLORS.includes(value as Color);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isPositiveInteger = (value: unknown): value is number => Number.isInteger(value) && (value as number) > 0;
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.length > 0;
+
+const isRow = (value: unknown): value is string => typeof value === 'string' && value.length === BOARD_WIDTH;
+
+const isCapsule = (value: unknown): value is [Color, Color] =>
+  Array.isArray(value) && value.length === 2 && value.every(isColor);
+
+const isGoal = (value: unknown): value is PuzzleGoal =>
+  isRecord(value) &&
+  (value.type === 'clearGerms' ||
+    (value.type === 'clearColor' && isColor(value.color)) ||
+    (value.type === 'score' && isPositiveInteger(value.target)));
+
+const isListOf =
+  <T>(isItem: (value: unknown) => value is T) =>
+  (value: unknown): value is T[] =>
+    Array.isArray(value) && value.every(isItem);
+
+const validateGoal = (goal: unknown, index: number, errors: string[]): void => {
+  const where = `goals[${index}]`;
+  if (!isRecord(goal)) {
+    errors.push(`${where} must be an object`);
+  } else if (goal.type === 'clearColor') {
+    if (!isColor(goal.color)) errors.push(`${where}.color must be one of ${PUZZLE_COLORS.join(', ')}`);
+  } else if (goal.type === 'score') {
+    if (!isPositiveInteger(goal.target)) errors.push(`${where}.target must be a positive integer`);
+  } else if (goal.type !== 'clearGerms') {
+    errors.push(`${where}.type must be clearGerms, clearColor or score`);
+  }
+};
+
+// Check untrusted JSON (a bundled pack, an imported string) against the
+// format and the rules the engine relies on. Collects every problem rather
+// than stopping at the first, so authors can fix a level in one pass.
+export const parsePuzzle = (data: unknown): PuzzleParseResult => {
+  const errors: string[] = [];
+
+  if (!isRecord(data)) {
+    return { ok: false, errors: ['Puzzle must be a JSON object'] };
+  }
+  const { version, id, name, board: rows, capsules, moveLimit, goals } = data;
+  if (version !== PUZZLE_FORMAT_VERSION) {
+    return { ok: false, errors: [`Unsupported puzzle version ${version} (expected ${PUZZLE_FORMAT_VERSION})`] };
+  }
+  if (!isNonEmptyString(id)) errors.push('id must be a non-empty string');
+  if (!isNonEmptyString(name)) errors.push('name must be a non-empty string');
+
+  if (!Array.isArray(rows) || rows.length !== BOARD_HEIGHT) {
+    errors.push(`board must have ${BOARD_HEIGHT} rows`);
+  } else {
+    rows.forEach((row: unknown, y: number) => {
+      if (!isRow(row)) {
+        errors.push(`board row ${y} must be ${BOARD_WIDTH} characters`);
+        return;
+      }
+      [...row].forEach((char, x) => {
+        if (char !== EMPTY_CHAR && !GERM_CHARS[char] && !PILL_CHARS[char]) {
+          errors.push(`board (${x}, ${y}) has unknown cell '${char}'`);
+        }
+      });
+    });
+  }
+
+  if (!Array.isArray(capsules) || capsules.length === 0) {
+    errors.push('capsules must list at least one capsule');
+  } else {
+    capsules.forEach((capsule: unknown, i: number) => {
+      if (!isCapsule(capsule)) errors.push(`capsules[${i}] must be a pair of colors`);
+    });
+  }
+
+  if (moveLimit !== undefined && !isPositiveInteger(moveLimit)) {
+    errors.push('moveLimit must be a positive integer when present');
+  }
+
+  if (!Array.isArray(goals) || goals.length === 0) {
+    errors.push('goals must list at least one goal');
+  } else {
+    goals.forEach((goal: unknown, i: number) => validateGoal(goal, i, errors));
+  }
+
+  // With no errors every field passed the checks above; the guards repeat
+  // them so the fields come out typed
+  if (
+    errors.length > 0 ||
+    !isNonEmptyString(id) ||
+    !isNonEmptyString(name) ||
+    !isListOf(isRow)(rows) ||
+    !isListOf(isCapsule)(capsules) ||
+    !isListOf(isGoal)(goals)
+  ) {
+    return { ok: false, errors };
+  }
+
+  const puzzle: PuzzleLevel = {
+    version: PUZZLE_FORMAT_VERSION,
+    id,
+    name,
+    board: rows,
+    capsules,
+    ...(isPositiveInteger(moveLimit) ? { moveLimit } : {}),
+    goals,
+  };
+  const board = new Board();
+  applyPuzzleBoard(board, puzzle);
+
+  if (!board.isEmpty(board.spawnX, 0) || !board.isEmpty(board.spawnX + 1, 0)) {
+    errors.push('the entry cells at the top center must be empty');
+  }
+  if (new MatchingSystem(board).findMatches().length > 0) {
+    errors.push('board starts with four or more in a row');
+  }
+  for (const cell of decodeBoard(puzzle.board)) {
+    if (cell.type !== CellType.PILL || cell.y === BOARD_HEIGHT - 1) continue;
+    if (board.isEmpty(cell.x, cell.y + 1)) {
+      errors.push(`capsule half at (${cell.x}, ${cell.y}) has nothing under it`);
+    }
+  }
+  const needsGerms = puzzle.goals.some(g => g.type !== 'score');
+  if (needsGerms && board.countViruses() === 0) {
+    errors.push('board needs at least one microbe');
+  }
+
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, puzzle };
+};
+
+// --- Share codes ---
+//
+// A puzzle squeezed into one line that survives chat apps and copy/paste:
+//   PP1|id|name|board|capsules|moveLimit|goals
+// board is the 16 rows run together, capsules are pill letters in pairs
+// (RBYY = red/blue then yellow/yellow), moveLimit is blank when there is
+// none, and goals are comma separated: G (every germ), C<letter> (one
+// color), S<target> (score). id and name are URI-encoded.
+const SHARE_PREFIX = `PP${PUZZLE_FORMAT_VERSION}`;
+
+const colorLetter = (color: Color): string => cellChar(CellType.PILL, color);
+
+export const encodePuzzle = (puzzle: PuzzleLevel): string => {
+  const goals = puzzle.goals.map(goal => {
+    switch (goal.type) {
+      case 'clearGerms':
+        return 'G';
+      case 'clearColor':
+        return `C${colorLetter(goal.color)}`;
+      case 'score':
+        return `S${goal.target}`;
+    }
+  });
+  return [
+    SHARE_PREFIX,
+    encodeURIComponent(puzzle.id),
+    encodeURIComponent(puzzle.name),
+    puzzle.board.join(''),
+    puzzle.capsules.map(pair => pair.map(colorLetter).join('')).join(''),
+    puzzle.moveLimit ?? '',
+    goals.join(','),
+  ].join('|');
+};
+
+// Share code back to a checked puzzle. Malformed codes come back as parse
+// errors, same as malformed JSON.
+export const decodePuzzle = (code: string): PuzzleParseResult => {
+  const parts = code.trim().split('|');
+  if (parts[0] !== SHARE_PREFIX || parts.length !== 7) {
+    return { ok: false, errors: ['Not a puzzle code'] };
+  }
+  const [, id, name, cells, capsules, moveLimit, goals] = parts;
+  try {
+    return parsePuzzle({
+      version: PUZZLE_FORMAT_VERSION,
+      id: decodeURIComponent(id),
+      name: decodeURIComponent(name),
+      board: Array.from({ length: BOARD_HEIGHT }, (_, y) => cells.slice(y * BOARD_WIDTH, (y + 1) * BOARD_WIDTH)),
+      capsules: (capsules.match(/../g) ?? []).map(pair => [...pair].map(letter => PILL_CHARS[letter])),
+      moveLimit: moveLimit === '' ? undefined : Number(moveLimit),
+      goals: goals.split(',').map(goal =>
+        goal === 'G'
+          ? { type: 'clearGerms' }
+          : goal[0] === 'C'
+            ? { type: 'clearColor', color: PILL_CHARS[goal.slice(1)] }
+            : goal[0] === 'S'
+              ? { type: 'score', target: Number(goal.slice(1)) }
+              : { type: goal }
+      ),
+    });
+  } catch {
+    // decodeURIComponent throws on a truncated escape
+    return { ok: false, errors: ['Puzzle code is damaged'] };
+  }
+};
@@ -0,0 +1,122 @@
+import { Board } from '../entities/Board';
+import { Pill } from '../entities/Pill';
+import { Placement, enumeratePlacements, landPlacement, scorePlacement } from '../ai/PlacementSearch';
+import { Color } from '../utils/constants';
+import { PuzzleLevel } from '../utils/types';
+import { applyPuzzleBoard, goalsMet } from './PuzzleFormat';
+
+// Search nodes (boards after a capsule lands) explored before giving up.
+// Enough for short puzzles to be settled either way in about a second.
+const DEFAULT_MAX_NODES = 20_000;
+
+export interface SolutionStep {
+  capsule: [Color, Color];
+  // Where it lands and the inputs from the entry cells that get it there
+  placement: Placement;
+  chain: number;
+  cleared: number;
+  score: number;
+}
+
+// solved: steps is a line of play that meets every goal
+// notFound: every line the search models within the capsule bound was
+//   tried and none does. That is not proof the puzzle can't be done: the
+//   search leaves out ledge slides and steering loose halves as they fall,
+//   and lets gravity settle a board at once.
+// unknown: the node budget ran out first
+export type SolveResult =
+  | { status: 'solved'; steps: SolutionStep[]; nodes: number }
+  | { status: 'notFound'; nodes: number }
+  | { status: 'unknown'; nodes: number };
+
+export interface SolveOptions {
+  // Capsules the search may use; defaults to the move limit, or one pass
+  // through the capsule sequence when the puzzle has none
+  maxCapsules?: number;
+  maxNodes?: number;
+}
+
+// Points for a chain, scored the way GameEngine.processMatches does
+const chainScore = (links: number[]): number =>
+  links.reduce((total, cleared, i) => total + cleared * 100 * (i + 1), 0);
+
+const boardKey = (board: Board): string =>
+  board.cells.map(row => row.map(cell => `${cell.type[0]}${cell.color?.[0] ?? ''}`).join('')).join('/');
+
+// Depth-first search over every resting spot each capsule in the sequence
+// can reach from the entry cells (Pill rotation and wall kicks included),
+// landing it with MatchingSystem's clear and gravity rules. Capsules are
+// played one at a time, as the engine does for puzzles, and always enter
+// at the center: a position where they can't is treated as lost. The most
+// promising placements are tried first and repeated positions are skipped,
+// so a solution usually turns up long before the bound is exhausted.
+export const solvePuzzle = (puzzle: PuzzleLevel, options: SolveOptions = {}): SolveResult => {
+  const maxCapsules = options.maxCapsules ?? puzzle.moveLimit ?? puzzle.capsules.length;
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const needsScore = puzzle.goals.some(goal => goal.type === 'score');
+  const seen = new Set<string>();
+  const steps: SolutionStep[] = [];
+  let nodes = 0;
+  let exhausted = true;
+
+  const search = (board: Board, score: number): boolean => {
+    if (goalsMet(puzzle.goals, board, score)) return true;
+    if (steps.length >= maxCapsules) return false;
+    if (!board.isEmpty(board.spawnX, 0) || !board.isEmpty(board.spawnX + 1, 0)) return false;
+
+    // The same board with the same capsules left (and, for score goals,
+    // the same score) has already been explored
+    const key = `${steps.length}:${needsScore ? score : ''}:${boardKey(board)}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+
+    const capsule = puzzle.capsules[steps.length % puzzle.capsules.length];
+    const pill = new Pill([capsule[0], capsule[1]], board.spawnX);
+    const ranked = enumeratePlacements(board, pill)
+      .map(placement => ({ placement, total: scorePlacement(board, placement).total }))
+      .sort((a, b) => b.total - a.total);
+
+    for (const { placement } of ranked) {
+      if (nodes >= maxNodes) {
+        exhausted = false;
+        return false;
+      }
+      nodes++;
+      const next = board.clone();
+      const { chain, cleared, links } = landPlacement(next, placement, `solve-${steps.length}`);
+      const gained = chainScore(links);
+      steps.push({ capsule, placement, chain, cleared, score: gained });
+      if (search(next, score + gained)) return true;
+      steps.pop();
+    }
+    return false;
+  };
+
+  const board = new Board();
+  applyPuzzleBoard(board, puzzle);
+  if (search(board, 0)) return { status: 'solved', steps: [...steps], nodes };
+  return exhausted ? { status: 'notFound', nodes } : { status: 'unknown', nodes };
+};
+
+// One line per step for tools and the editor, e.g.
+// "1. red/yellow: rotate, left, left, drop -> (2, 13) (2, 14), clears 4"
+// Trailing soft drops read as the drop; any before a slide (to get under
+// an overhang) are kept, with repeats folded together.
+export const describeStep = (step: SolutionStep, index: number): string => {
+  const path = [...step.placement.path];
+  while (path[path.length - 1] === 'down') path.pop();
+  const inputs: string[] = [];
+  let downs = 0;
+  for (const action of [...path, null]) {
+    if (action === 'down') {
+      downs++;
+      continue;
+    }
+    if (downs > 0) inputs.push(downs > 1 ? `down x${downs}` : 'down');
+    downs = 0;
+    if (action) inputs.push(action);
+  }
+  const cells = step.placement.positions.map(p => `(${p.x}, ${p.y})`).join(' ');
+  const clears = step.cleared > 0 ? `, clears ${step.cleared}${step.chain > 1 ? ` in a ${step.chain}-chain` : ''}` : '';
+  return `${index + 1}. ${step.capsule.map(c => c.toLowerCase()).join('/')}: ${[...inputs, 'drop'].join(', ')} -> ${cells}${clears}`;
+};
@@ -0,0 +1,24 @@
+import { PuzzlePack } from '../utils/types';
+import { parsePuzzle } from './PuzzleFormat';
+import starterPack from './packs/starter.json';
+
+// Bundled packs are checked like any other level data. A puzzle that fails
+// to parse is left out rather than shipped broken, and its errors are kept
+// for checks to fail on.
+const loadPack = (data: { id: string; name: string; puzzles: unknown[] }): { pack: PuzzlePack; errors: string[] } => {
+  const errors: string[] = [];
+  const puzzles = data.puzzles.flatMap((raw, i) => {
+    const result = parsePuzzle(raw);
+    if (result.ok) return [result.puzzle];
+    errors.push(`${data.id}/puzzles[${i}]: ${result.errors.join('; ')}`);
+    return [];
+  });
+  return { pack: { id: data.id, name: data.name, puzzles }, errors };
+};
+
+const loaded = [loadPack(starterPack)];
+
+export const PUZZLE_PACKS: PuzzlePack[] = loaded.map(({ pack }) => pack);
+
+// One line per left-out bundled puzzle saying why; empty when all of them load
+export const PUZZLE_PACK_ERRORS: string[] = loaded.flatMap(({ errors }) => errors);
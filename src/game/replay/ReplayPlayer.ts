@@ -0,0 +1,218 @@
+import { GameEngine } from '../GameEngine';
+import { parsePuzzle } from '../puzzles/PuzzleFormat';
+import { Color, Direction, GameState, FIXED_TIMESTEP_MS } from '../utils/constants';
+import { GameMode, ReplayCommand, ReplayLog, SpeedSetting } from '../utils/types';
+
+const COLORS = Object.values(Color) as string[];
+const DIRECTIONS = Object.values(Direction) as string[];
+const MODES = Object.values(GameMode) as string[];
+const SPEEDS = Object.values(SpeedSetting) as string[];
+const STATES = Object.values(GameState) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+// Whether untrusted data (a peer's message, a saved input log) is a command
+// applyReplayCommand understands
+export const isReplayCommand = (value: unknown): value is ReplayCommand => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return false;
+  const command = value as Record<string, unknown>;
+  switch (command.type) {
+    case 'grab':
+    case 'rotateById':
+    case 'select':
+      return typeof command.pillId === 'string';
+    case 'drag':
+      return Number.isFinite(command.translationX) && Number.isFinite(command.translationY);
+    case 'move':
+      return DIRECTIONS.includes(command.direction as string);
+    case 'fastDrop':
+      return typeof command.fast === 'boolean';
+    case 'garbage':
+      return Array.isArray(command.colors) && command.colors.every(color => COLORS.includes(color));
+    case 'rotate':
+      return command.counterClockwise === undefined || typeof command.counterClockwise === 'boolean';
+    case 'release':
+    case 'drop':
+    case 'switch':
+    case 'pause':
+    case 'resume':
+    case 'hint':
+      return true;
+    default:
+      return false;
+  }
+};
+
+// Whether untrusted data (a saved replay) is a whole log ReplayPlayer can
+// play: every command checked, and a puzzle run's level held to the same
+// rules as an imported one
+export const isReplayLog = (value: unknown): value is ReplayLog =>
+  isRecord(value) &&
+  isCount(value.version) &&
+  isCount(value.seed) &&
+  isCount(value.level) &&
+  value.level >= 1 &&
+  isCount(value.initialScore) &&
+  SPEEDS.includes(value.speedSetting as string) &&
+  MODES.includes(value.mode as string) &&
+  Array.isArray(value.commands) &&
+  value.commands.every((entry: unknown) => isRecord(entry) && isCount(entry.tick) && isReplayCommand(entry.command)) &&
+  isCount(value.ticks) &&
+  Number.isFinite(value.finalScore) &&
+  STATES.includes(value.finalState as string) &&
+  typeof value.recordedAt === 'string' &&
+  (value.puzzle === undefined || parsePuzzle(value.puzzle).ok);
+
+// Feed one recorded command back into an engine through its public API
+export const applyReplayCommand = (engine: GameEngine, command: ReplayCommand): void => {
+  switch (command.type) {
+    case 'grab':
+      engine.grabPill(command.pillId);
+      break;
+    case 'drag':
+      engine.dragHeldPill(command.translationX, command.translationY);
+      break;
+    case 'release':
+      engine.releaseHeldPill();
+      break;
+    case 'rotateById':
+      engine.rotatePillById(command.pillId);
+      break;
+    case 'rotate':
+      engine.rotatePill(command.counterClockwise);
+      break;
+    case 'move':
+      engine.movePill(command.direction);
+      break;
+    case 'drop':
+      engine.dropPill();
+      break;
+    case 'fastDrop':
+      engine.setFastDrop(command.fast);
+      break;
+    case 'switch':
+      engine.switchToNextPill();
+      break;
+    case 'select':
+      engine.selectPillById(command.pillId);
+      break;
+    case 'pause':
+      engine.pause();
+      break;
+    case 'resume':
+      engine.resume();
+      break;
+    case 'hint':
+      engine.requestHint();
+      break;
+    case 'garbage':
+      engine.receiveGarbage(command.colors);
+      break;
+  }
+};
+
+// Plays an input log back on a fresh engine. Commands stamped with tick N
+// are applied after N fixed steps, exactly as they arrived when recorded, so
+// the run reproduces the same board, score and end state.
+export class ReplayPlayer {
+  private readonly log: ReplayLog;
+  private readonly engine: GameEngine;
+  private cursor: number = 0;
+  private elapsed: number = 0;
+
+  constructor(log: ReplayLog, engine: GameEngine = new GameEngine()) {
+    this.log = log;
+    this.engine = engine;
+  }
+
+  start(): void {
+    this.cursor = 0;
+    this.elapsed = 0;
+    if (this.log.puzzle) {
+      this.engine.startPuzzle(this.log.puzzle, this.log.speedSetting, this.log.seed);
+    } else {
+      this.engine.startGame(
+        this.log.level,
+        this.log.speedSetting,
+        this.log.initialScore,
+        this.log.mode,
+        this.log.seed,
+        this.log.boardSize,
+        this.log.colorCount
+      );
+    }
+    this.applyPending();
+  }
+
+  getEngine(): GameEngine {
+    return this.engine;
+  }
+
+  // True once the recording is exhausted or the run has ended
+  isFinished(): boolean {
+    const state = this.engine.getGameState();
+    if (state === GameState.GAME_OVER || state === GameState.LEVEL_COMPLETE) return true;
+    const exhausted = this.cursor >= this.log.commands.length;
+    // A recording taken while paused has nothing left to unpause it
+    if (exhausted && state === GameState.PAUSED) return true;
+    return exhausted && this.engine.getTick() >= this.log.ticks;
+  }
+
+  // Advance by one fixed tick, then apply the commands that followed it
+  stepTick(): void {
+    if (this.isFinished()) return;
+    this.engine.step();
+    this.applyPending();
+  }
+
+  // Real-time playback for a viewer: advance by wall-clock milliseconds
+  advance(deltaTime: number, speed: number = 1): void {
+    this.elapsed += Math.min(deltaTime, 100) * speed;
+    while (this.elapsed >= FIXED_TIMESTEP_MS && !this.isFinished()) {
+      this.stepTick();
+      this.elapsed -= FIXED_TIMESTEP_MS;
+    }
+  }
+
+  // Catch up to another engine's tick, for a ghost running beside a live
+  // run. Follows the live clock, so pausing the live run holds the ghost.
+  advanceTo(tick: number): void {
+    while (this.engine.getTick() < tick && !this.isFinished()) {
+      this.stepTick();
+    }
+  }
+
+  // Play the whole log headlessly and report whether the outcome matches
+  // what was recorded
+  runToEnd(): boolean {
+    this.start();
+    while (!this.isFinished()) {
+      this.stepTick();
+    }
+    return this.matchesRecording();
+  }
+
+  matchesRecording(): boolean {
+    const stats = this.engine.getStats();
+    return (
+      stats.score === this.log.finalScore &&
+      this.engine.getGameState() === this.log.finalState &&
+      this.engine.getTick() === this.log.ticks
+    );
+  }
+
+  // Apply every command stamped with the current tick. A paused recording
+  // stamps pause, input and resume with the same tick, so they all land here
+  // before the next step.
+  private applyPending(): void {
+    const commands = this.log.commands;
+    const tick = this.engine.getTick();
+    while (this.cursor < commands.length && commands[this.cursor].tick <= tick) {
+      applyReplayCommand(this.engine, commands[this.cursor].command);
+      this.cursor++;
+    }
+  }
+}
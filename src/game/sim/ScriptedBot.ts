@@ -0,0 +1,142 @@
+import { GameEngine } from '../GameEngine';
+import { Board } from '../entities/Board';
+import { Pill } from '../entities/Pill';
+import { CellType, Color, Direction, Orientation } from '../utils/constants';
+import { Position } from '../utils/types';
+import { SeededRandom } from '../utils/random';
+
+// Anything that can drive a headless engine. `act` runs once per fixed tick,
+// before the engine steps, and may only use the engine's public input API.
+export interface SimulationBot {
+  readonly name: string;
+  reset(seed: number): void;
+  act(engine: GameEngine): void;
+}
+
+interface Plan {
+  pillId: string;
+  x: number;
+  orientation: Orientation;
+}
+
+// A deliberately simple player for balancing runs: it reacts every few ticks
+// like a person would, targets the lowest capsule, picks a column that
+// stacks colors onto matching colors, and walks the capsule there one input
+// at a time before dropping it. Its strength is fixed, so changes in the
+// numbers come from the difficulty table rather than the bot.
+export class ScriptedBot implements SimulationBot {
+  readonly name = 'scripted';
+  private rng = new SeededRandom(0);
+  private plan: Plan | null = null;
+  private cooldown = 0;
+
+  // reactionTicks: fixed ticks between inputs (10 ticks ~ 170 ms)
+  // mistakeRate: chance of picking a random column instead of the best one
+  constructor(private reactionTicks: number = 10, private mistakeRate: number = 0.15) {}
+
+  reset(seed: number): void {
+    this.rng = new SeededRandom(seed);
+    this.plan = null;
+    this.cooldown = 0;
+  }
+
+  act(engine: GameEngine): void {
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return;
+    }
+    this.cooldown = this.reactionTicks;
+
+    // Grounded capsules are left alone: dropping again would restart their
+    // lock timer and keep them from ever settling
+    const board = engine.getBoard();
+    const capsules = engine
+      .getAllFallingPills()
+      .filter((p): p is Pill => p instanceof Pill && p.isActive && p.isUserControllable)
+      .filter(p => p.canMove(board, 0, 1));
+    if (capsules.length === 0) {
+      this.plan = null;
+      return;
+    }
+    const pill = capsules.reduce((low, p) => (p.position.y > low.position.y ? p : low));
+    engine.selectPillById(pill.id);
+
+    if (!this.plan || this.plan.pillId !== pill.id) {
+      this.plan = this.choosePlan(board, pill);
+    }
+
+    if (pill.orientation !== this.plan.orientation) {
+      engine.rotatePill();
+    } else if (pill.position.x < this.plan.x) {
+      engine.movePill(Direction.RIGHT);
+    } else if (pill.position.x > this.plan.x) {
+      engine.movePill(Direction.LEFT);
+    } else {
+      engine.dropPill();
+    }
+  }
+
+  private choosePlan(board: Board, pill: Pill): Plan {
+    const candidates: Array<Plan & { score: number }> = [];
+    const width = board.cells[0].length;
+
+    for (const orientation of [Orientation.HORIZONTAL, Orientation.VERTICAL]) {
+      // Colors as they'll sit after the rotations the plan needs
+      const colors: [Color, Color] =
+        orientation === pill.orientation
+          ? pill.colors
+          : orientation === Orientation.VERTICAL
+            ? [pill.colors[0], pill.colors[1]]
+            : [pill.colors[1], pill.colors[0]];
+      const maxX = orientation === Orientation.HORIZONTAL ? width - 2 : width - 1;
+      for (let x = 0; x <= maxX; x++) {
+        const score = this.scoreLanding(board, x, pill.position.y, orientation, colors);
+        if (score !== null) candidates.push({ pillId: pill.id, x, orientation, score });
+      }
+    }
+
+    if (candidates.length === 0) {
+      return { pillId: pill.id, x: pill.position.x, orientation: pill.orientation };
+    }
+    if (this.rng.next() < this.mistakeRate) {
+      return this.rng.pick(candidates);
+    }
+    return candidates.reduce((best, c) => (c.score > best.score ? c : best));
+  }
+
+  // Where the capsule would come to rest in this column, scored by how many
+  // same-colored cells it lands against, minus a penalty for stacking high.
+  // Null when the column can't be reached from the capsule's current row.
+  private scoreLanding(
+    board: Board,
+    x: number,
+    fromY: number,
+    orientation: Orientation,
+    colors: [Color, Color]
+  ): number | null {
+    const cellsAt = (y: number): Position[] =>
+      orientation === Orientation.HORIZONTAL
+        ? [{ x, y }, { x: x + 1, y }]
+        : [{ x, y }, { x, y: y + 1 }];
+    const fits = (y: number) =>
+      cellsAt(y).every(p => board.isValidPosition(p.x, p.y) && board.isEmpty(p.x, p.y));
+
+    if (!fits(fromY)) return null;
+    let y = fromY;
+    while (fits(y + 1)) y++;
+
+    let score = 0;
+    cellsAt(y).forEach((pos, i) => {
+      for (const [dx, dy] of [[0, 1], [-1, 0], [1, 0]] as const) {
+        const neighbor = board.getCell(pos.x + dx, pos.y + dy);
+        if (!neighbor || neighbor.type === CellType.EMPTY) continue;
+        if (neighbor.color === colors[i]) {
+          score += neighbor.type === CellType.VIRUS ? 3 : 2;
+        } else if (dy === 1) {
+          score -= 1;
+        }
+      }
+    });
+    return score + y * 0.5;
+  }
+}
@@ -0,0 +1,134 @@
+import { GameEngine } from '../GameEngine';
+import { GameState, FIXED_TIMESTEP_MS } from '../utils/constants';
+import { GameMode, SpeedSetting } from '../utils/types';
+import { SimulationBot } from './ScriptedBot';
+
+export interface SimulationOptions {
+  speedSetting: SpeedSetting;
+  mode: GameMode;
+  level: number;
+  seed: number;
+  bot: SimulationBot;
+  // Hard cap so a bot that never tops out can't run forever
+  maxTicks: number;
+}
+
+export type SimulationOutcome = 'GAME_OVER' | 'LEVEL_COMPLETE' | 'TIMEOUT';
+
+export interface SimulationResult {
+  seed: number;
+  speedSetting: SpeedSetting;
+  mode: GameMode;
+  outcome: SimulationOutcome;
+  survivalMs: number;
+  // Endless wave the run ended on (the level for Classic)
+  wavesReached: number;
+  capsulesPlaced: number;
+  score: number;
+  virusesLeft: number;
+}
+
+export interface Distribution {
+  min: number;
+  p10: number;
+  median: number;
+  mean: number;
+  p90: number;
+  max: number;
+}
+
+export interface SimulationSummary {
+  speedSetting: SpeedSetting;
+  games: number;
+  clearRate: number;
+  timeoutRate: number;
+  survivalMs: Distribution;
+  wavesReached: Distribution;
+  capsulesPlaced: Distribution;
+  score: Distribution;
+}
+
+// Play one full game with no renderer: the bot acts, then the engine takes
+// one fixed step, until the run ends or hits the tick cap
+export const runSimulation = (options: SimulationOptions): SimulationResult => {
+  const engine = new GameEngine();
+  options.bot.reset(options.seed);
+  engine.startGame(options.level, options.speedSetting, 0, options.mode, options.seed);
+
+  const finished = () => {
+    const state = engine.getGameState();
+    return state === GameState.GAME_OVER || state === GameState.LEVEL_COMPLETE;
+  };
+  while (!finished() && engine.getTick() < options.maxTicks) {
+    options.bot.act(engine);
+    engine.step();
+  }
+
+  const stats = engine.getStats();
+  const state = engine.getGameState();
+  return {
+    seed: options.seed,
+    speedSetting: options.speedSetting,
+    mode: options.mode,
+    outcome:
+      state === GameState.GAME_OVER
+        ? 'GAME_OVER'
+        : state === GameState.LEVEL_COMPLETE
+          ? 'LEVEL_COMPLETE'
+          : 'TIMEOUT',
+    survivalMs: Math.round(engine.getTick() * FIXED_TIMESTEP_MS),
+    wavesReached: stats.level,
+    capsulesPlaced: stats.capsulesPlaced,
+    score: stats.score,
+    virusesLeft: stats.virusCount,
+  };
+};
+
+const percentile = (sorted: number[], p: number): number => {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.floor(p * sorted.length));
+  return sorted[index];
+};
+
+export const distribution = (values: number[]): Distribution => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = sorted.length ? sorted.reduce((sum, v) => sum + v, 0) / sorted.length : 0;
+  return {
+    min: sorted[0] ?? 0,
+    p10: percentile(sorted, 0.1),
+    median: percentile(sorted, 0.5),
+    mean: Math.round(mean * 100) / 100,
+    p90: percentile(sorted, 0.9),
+    max: sorted[sorted.length - 1] ?? 0,
+  };
+};
+
+export const summarize = (speedSetting: SpeedSetting, results: SimulationResult[]): SimulationSummary => {
+  const games = results.length || 1;
+  return {
+    speedSetting,
+    games: results.length,
+    clearRate: results.filter(r => r.outcome === 'LEVEL_COMPLETE').length / games,
+    timeoutRate: results.filter(r => r.outcome === 'TIMEOUT').length / games,
+    survivalMs: distribution(results.map(r => r.survivalMs)),
+    wavesReached: distribution(results.map(r => r.wavesReached)),
+    capsulesPlaced: distribution(results.map(r => r.capsulesPlaced)),
+    score: distribution(results.map(r => r.score)),
+  };
+};
+
+const CSV_COLUMNS: Array<keyof SimulationResult> = [
+  'seed',
+  'speedSetting',
+  'mode',
+  'outcome',
+  'survivalMs',
+  'wavesReached',
+  'capsulesPlaced',
+  'score',
+  'virusesLeft',
+];
+
+// One row per game, for spreadsheets and plotting
+export const toCsv = (results: SimulationResult[]): string =>
+  [CSV_COLUMNS.join(','), ...results.map(r => CSV_COLUMNS.map(c => r[c]).join(','))].join('\n');
@@ -0,0 +1,259 @@
+import { Pill } from '../entities/Pill';
+import { SinglePill } from '../entities/SinglePill';
+import { parsePuzzle } from '../puzzles/PuzzleFormat';
+import { isReplayCommand } from '../replay/ReplayPlayer';
+import {
+  BOARD_HEIGHT,
+  BOARD_WIDTH,
+  CellType,
+  Color,
+  DEFAULT_COLOR_COUNT,
+  GameState,
+  Orientation,
+  paletteFor,
+} from '../utils/constants';
+import {
+  Controllable,
+  EndlessCell,
+  EndlessSnapshot,
+  EngineSnapshot,
+  GameMode,
+  GameStats,
+  PieceSnapshot,
+  Position,
+  ReplayEntry,
+  SpeedSetting,
+} from '../utils/types';
+import { randomSeed } from '../utils/random';
+
+// Version 1 was EndlessSnapshot; 2 is EngineSnapshot
+export const ENGINE_SNAPSHOT_VERSION = 2;
+
+export const snapshotPiece = (piece: Controllable): PieceSnapshot => {
+  const capsule = piece instanceof Pill;
+  return {
+    id: piece.id,
+    kind: capsule ? 'capsule' : 'half',
+    position: { ...piece.position },
+    orientation: capsule ? piece.orientation : null,
+    colors: capsule ? [...piece.colors] : [(piece as SinglePill).color],
+    isActive: piece.isActive,
+    isUserControllable: piece.isUserControllable,
+    fallOffset: piece.fallOffset,
+    held: piece.held,
+    fastDrop: piece.fastDrop,
+    debris: piece.debris,
+  };
+};
+
+export const restorePiece = (snapshot: PieceSnapshot): Pill | SinglePill => {
+  const piece =
+    snapshot.kind === 'capsule'
+      ? new Pill([snapshot.colors[0], snapshot.colors[1]])
+      : new SinglePill(snapshot.colors[0], snapshot.position, snapshot.isUserControllable);
+  if (piece instanceof Pill && snapshot.orientation) piece.orientation = snapshot.orientation;
+  piece.id = snapshot.id;
+  piece.position = { ...snapshot.position };
+  piece.isActive = snapshot.isActive;
+  piece.isUserControllable = snapshot.isUserControllable;
+  piece.fallOffset = snapshot.fallOffset;
+  piece.held = snapshot.held;
+  piece.fastDrop = snapshot.fastDrop;
+  piece.debris = snapshot.debris;
+  return piece;
+};
+
+// v1 -> v2. A v1 save had no airborne pieces, no generator and no input
+// log, so the run goes on from a fresh stream, can't be replayed, and its
+// next capsule enters on the first tick, as resuming one always did.
+const fromEndlessV1 = (v1: EndlessSnapshot): EngineSnapshot => {
+  const seed = randomSeed();
+  const next = new Pill([v1.nextColors[0], v1.nextColors[1]]);
+  next.id = `pill-${seed.toString(36)}-1`;
+  return {
+    version: 2,
+    mode: GameMode.ENDLESS,
+    state: GameState.PLAYING,
+    boardSize: { width: BOARD_WIDTH, height: BOARD_HEIGHT },
+    cells: v1.cells,
+    stats: {
+      score: v1.score,
+      level: v1.wave,
+      virusCount: v1.cells.filter(cell => cell.type === CellType.VIRUS).length,
+      linesCleared: 0,
+      capsulesPlaced: v1.capsulesPlaced,
+      currentSpeedLevel: 0,
+      speedSetting: v1.speedSetting,
+      hintsUsed: 0,
+      movesLeft: null,
+      timeLeftMs: null,
+      elapsedMs: null,
+    },
+    pieces: [],
+    selectedPieceId: null,
+    nextPiece: snapshotPiece(next),
+    grabStart: null,
+    combo: 0,
+    waveDelay: 0,
+    spawnCooldown: 0,
+    accumulator: 0,
+    seed,
+    rngState: seed,
+    tick: 0,
+    entitySeq: 1,
+    inputLog: null,
+    runStart: { level: v1.wave, initialScore: v1.score },
+    hint: null,
+    puzzle: null,
+    puzzleCapsuleIndex: 0,
+    pendingGarbage: [],
+    palette: paletteFor(DEFAULT_COLOR_COUNT),
+    splits: [],
+    lastPlayed: v1.lastPlayed,
+  };
+};
+
+// --- Validation ---
+//
+// Saves come back from storage as untrusted JSON. Everything deserialize
+// reads is checked here, so a damaged save is turned away instead of
+// half-restoring a run.
+
+type Fields = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+const isNumber = (value: unknown): value is number => Number.isFinite(value);
+
+const isNumberOrNull = (value: unknown): boolean => value === null || isNumber(value);
+
+const isOneOf =
+  <T extends string>(values: Record<string, T>) =>
+  (value: unknown): value is T =>
+    (Object.values(values) as unknown[]).includes(value);
+
+const isColor = isOneOf(Color);
+const isColorList = (value: unknown): value is Color[] => Array.isArray(value) && value.every(isColor);
+
+const isPosition = (value: unknown): value is Position =>
+  isRecord(value) && Number.isInteger(value.x) && Number.isInteger(value.y);
+
+const isCell = (value: unknown): value is EndlessCell =>
+  isRecord(value) &&
+  isCount(value.x) &&
+  isCount(value.y) &&
+  (value.type === CellType.VIRUS || value.type === CellType.PILL) &&
+  isColor(value.color) &&
+  (value.pillId === undefined || typeof value.pillId === 'string');
+
+// Occupied cells, each inside the board and none twice
+const cellsFit = (cells: EndlessCell[], width: number, height: number): boolean => {
+  const seen = new Set<number>();
+  return cells.every(cell => {
+    const index = cell.y * width + cell.x;
+    if (cell.x >= width || cell.y >= height || seen.has(index)) return false;
+    seen.add(index);
+    return true;
+  });
+};
+
+const isStats = (value: unknown): value is GameStats =>
+  isRecord(value) &&
+  ['score', 'level', 'virusCount', 'linesCleared', 'capsulesPlaced', 'currentSpeedLevel', 'hintsUsed'].every(key =>
+    isNumber(value[key])
+  ) &&
+  isOneOf(SpeedSetting)(value.speedSetting) &&
+  isNumberOrNull(value.movesLeft) &&
+  isNumberOrNull(value.timeLeftMs) &&
+  isNumberOrNull(value.elapsedMs);
+
+const isPiece = (value: unknown): value is PieceSnapshot =>
+  isRecord(value) &&
+  typeof value.id === 'string' &&
+  isPosition(value.position) &&
+  (value.kind === 'capsule'
+    ? isOneOf(Orientation)(value.orientation) && isColorList(value.colors) && value.colors.length === 2
+    : value.kind === 'half' && value.orientation === null && isColorList(value.colors) && value.colors.length === 1) &&
+  ['isActive', 'isUserControllable', 'held', 'fastDrop', 'debris'].every(key => typeof value[key] === 'boolean') &&
+  isNumber(value.fallOffset);
+
+const isInputLog = (value: unknown): value is ReplayEntry[] =>
+  Array.isArray(value) && value.every(entry => isRecord(entry) && isCount(entry.tick) && isReplayCommand(entry.command));
+
+const isHint = (value: unknown): boolean =>
+  value === null ||
+  (isRecord(value) &&
+    typeof value.pieceId === 'string' &&
+    isRecord(value.placement) &&
+    Array.isArray(value.placement.positions) &&
+    value.placement.positions.every(isPosition) &&
+    isColorList(value.placement.colors) &&
+    (value.placement.orientation === null || isOneOf(Orientation)(value.placement.orientation)) &&
+    Array.isArray(value.placement.path) &&
+    value.placement.path.every(step => ['left', 'right', 'down', 'rotate'].includes(step)));
+
+const isEngineSnapshot = (value: unknown): value is EngineSnapshot => {
+  if (!isRecord(value) || value.version !== ENGINE_SNAPSHOT_VERSION) return false;
+  const { boardSize, runStart } = value;
+  if (!isRecord(boardSize) || !isCount(boardSize.width) || !isCount(boardSize.height)) return false;
+  if (boardSize.width === 0 || boardSize.height === 0) return false;
+  if (!Array.isArray(value.cells) || !value.cells.every(isCell)) return false;
+  if (!cellsFit(value.cells, boardSize.width, boardSize.height)) return false;
+  return (
+    isOneOf(GameMode)(value.mode) &&
+    isOneOf(GameState)(value.state) &&
+    isStats(value.stats) &&
+    Array.isArray(value.pieces) &&
+    value.pieces.every(isPiece) &&
+    (value.selectedPieceId === null || typeof value.selectedPieceId === 'string') &&
+    (value.nextPiece === null || (isPiece(value.nextPiece) && value.nextPiece.kind === 'capsule')) &&
+    (value.grabStart === null || isPosition(value.grabStart)) &&
+    ['combo', 'waveDelay', 'spawnCooldown', 'accumulator', 'seed', 'rngState'].every(key => isNumber(value[key])) &&
+    isCount(value.tick) &&
+    isCount(value.entitySeq) &&
+    (value.inputLog === null || isInputLog(value.inputLog)) &&
+    isRecord(runStart) &&
+    isNumber(runStart.level) &&
+    isNumber(runStart.initialScore) &&
+    isHint(value.hint) &&
+    (value.puzzle === null || parsePuzzle(value.puzzle).ok) &&
+    isCount(value.puzzleCapsuleIndex) &&
+    isColorList(value.pendingGarbage) &&
+    isColorList(value.palette) &&
+    value.palette.length > 0 &&
+    Array.isArray(value.splits) &&
+    value.splits.every(isNumber) &&
+    typeof value.lastPlayed === 'string'
+  );
+};
+
+// A v1 save is only as good as its cells, wave and next capsule
+const isEndlessV1 = (value: unknown): value is EndlessSnapshot =>
+  isRecord(value) &&
+  Array.isArray(value.cells) &&
+  value.cells.every(isCell) &&
+  isNumber(value.wave) &&
+  isColorList(value.nextColors) &&
+  value.nextColors.length === 2;
+
+// Each step takes a snapshot of its version to the next one up, or null if
+// it can't
+const MIGRATIONS: Record<number, (snapshot: unknown) => unknown> = {
+  1: snapshot => (isEndlessV1(snapshot) ? fromEndlessV1(snapshot) : null),
+};
+
+// A saved snapshot of any version, brought up to the current format. Null
+// for anything that isn't a snapshot, is corrupt, or comes from a newer
+// version of the app.
+export const migrateSnapshot = (data: unknown): EngineSnapshot | null => {
+  let snapshot = data;
+  while (isRecord(snapshot) && isNumber(snapshot.version) && snapshot.version < ENGINE_SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[snapshot.version];
+    if (!migrate) return null;
+    snapshot = migrate(snapshot);
+  }
+  return isEngineSnapshot(snapshot) ? snapshot : null;
+};
@@ -1,7 +1,36 @@
 import { Board } from '../entities/Board';
-import { CellType, Color, BOARD_WIDTH, BOARD_HEIGHT } from '../utils/constants';
+import { CellType, Color } from '../utils/constants';
 import { Position, SplitResult } from '../utils/types';
 
+// Shortest same-colored line a generated or authored board may not start
+// with: one placement short of a free clear.
+export const PREMADE_RUN_LENGTH = 3;
+
+// True if `color` at (x, y) would form a run of PREMADE_RUN_LENGTH or more
+// along either axis with the colors `colorAt` reports around it. The cell
+// itself is never looked up, so this works for filled and empty cells.
+export const wouldCreateRun = (
+  colorAt: (x: number, y: number) => Color | null,
+  x: number,
+  y: number,
+  color: Color
+): boolean => {
+  const reach = PREMADE_RUN_LENGTH - 1;
+  for (const [dx, dy] of [[1, 0], [0, 1]] as const) {
+    let run = 1;
+    for (let step = 1; step <= reach; step++) {
+      if (colorAt(x + dx * step, y + dy * step) === color) run++;
+      else break;
+    }
+    for (let step = 1; step <= reach; step++) {
+      if (colorAt(x - dx * step, y - dy * step) === color) run++;
+      else break;
+    }
+    if (run >= PREMADE_RUN_LENGTH) return true;
+  }
+  return false;
+};
+
 export class MatchingSystem {
   private board: Board;
   private minMatchLength = 4;
@@ -15,11 +44,11 @@ export class MatchingSystem {
     const visited = new Set<string>();
 
     // Check horizontal matches
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
+    for (let y = 0; y < this.board.height; y++) {
       let currentColor: Color | null = null;
       let matchPositions: Position[] = [];
 
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+      for (let x = 0; x < this.board.width; x++) {
         const cell = this.board.getCell(x, y);
         
         if (cell && cell.type !== CellType.EMPTY && cell.color) {
@@ -50,11 +79,11 @@ export class MatchingSystem {
     }
 
     // Check vertical matches
-    for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let x = 0; x < this.board.width; x++) {
       let currentColor: Color | null = null;
       let matchPositions: Position[] = [];
 
-      for (let y = 0; y < BOARD_HEIGHT; y++) {
+      for (let y = 0; y < this.board.height; y++) {
         const cell = this.board.getCell(x, y);
         
         if (cell && cell.type !== CellType.EMPTY && cell.color) {
@@ -100,10 +129,6 @@ export class MatchingSystem {
         if (cell && cell.type !== CellType.EMPTY) {
           clearedPositions.add(`${pos.x},${pos.y}`);
           
-          if (cell.type === CellType.VIRUS) {
-            console.log(`🦠 Virus at (${pos.x}, ${pos.y}) will be CLEARED in match!`);
-          }
-          
           if (cell.type === CellType.PILL && cell.pillId) {
             if (!affectedPills.has(cell.pillId)) {
               affectedPills.set(cell.pillId, []);
@@ -158,8 +183,8 @@ export class MatchingSystem {
     const processedPills = new Set<string>();
 
     // Process from bottom to top
-    for (let y = BOARD_HEIGHT - 2; y >= 0; y--) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = this.board.height - 2; y >= 0; y--) {
+      for (let x = 0; x < this.board.width; x++) {
         const cell = this.board.getCell(x, y);
         
         if (cell && cell.type !== CellType.EMPTY) {
@@ -183,7 +208,6 @@ export class MatchingSystem {
             }
           } else if (cell.type === CellType.VIRUS) {
             // Viruses don't fall
-            console.log(`🦠 Virus at (${x}, ${y}) - NOT applying gravity (viruses stay in place)`);
             continue;
           }
         }
@@ -196,8 +220,8 @@ export class MatchingSystem {
   private findPillCells(pillId: string): Position[] {
     const positions: Position[] = [];
     
-    for (let y = 0; y < BOARD_HEIGHT; y++) {
-      for (let x = 0; x < BOARD_WIDTH; x++) {
+    for (let y = 0; y < this.board.height; y++) {
+      for (let x = 0; x < this.board.width; x++) {
         const cell = this.board.getCell(x, y);
         if (cell && cell.type === CellType.PILL && cell.pillId === pillId) {
           positions.push({ x, y });
@@ -210,7 +234,7 @@ export class MatchingSystem {
 
   private canPillFall(positions: Position[]): boolean {
     for (const pos of positions) {
-      if (pos.y >= BOARD_HEIGHT - 1) {
+      if (pos.y >= this.board.height - 1) {
         return false;
       }
       
@@ -251,7 +275,7 @@ export class MatchingSystem {
   }
 
   private canSingleBlockFall(x: number, y: number): boolean {
-    if (y >= BOARD_HEIGHT - 1) {
+    if (y >= this.board.height - 1) {
       return false;
     }
     
@@ -270,6 +294,23 @@ export class MatchingSystem {
     }
   }
 
+  // Clear, drop and re-check until nothing else matches, the way a chain
+  // plays out. Meant for scratch boards in look-ahead searches; the live
+  // engine releases floating pieces as falling entities instead.
+  // links: cells cleared by each link of the chain, in order
+  resolveChains(): { chain: number; cleared: number; links: number[] } {
+    const links: number[] = [];
+    for (;;) {
+      const matches = this.findMatches();
+      if (matches.length === 0) break;
+      links.push(this.clearMatches(matches).clearedCount);
+      while (this.applyGravity()) {
+        // Settle everything before looking for the next link
+      }
+    }
+    return { chain: links.length, cleared: links.reduce((sum, n) => sum + n, 0), links };
+  }
+
   processMatches(): { cleared: number; matches: Position[][]; splits: SplitResult[] } {
     const matches = this.findMatches();
     const { clearedCount, splits } = this.clearMatches(matches);
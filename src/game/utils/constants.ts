@@ -1,8 +1,10 @@
-import { theme } from '../../utils/theme';
+// Pure simulation constants: nothing here may import UI or platform modules,
+// so the engine can run headless (simulations, bots) in plain Node
 
+// The standard tray. A run can be played on another size (see BoardSize);
+// the Board it plays on carries its own width and height.
 export const BOARD_WIDTH = 8;
 export const BOARD_HEIGHT = 16;
-export const CELL_SIZE = theme.dimensions.cellSize;
 
 // Germ Buster (Virus Buster) difficulty model: the fall speed stays gentle
 // and constant — difficulty comes from how MANY capsules are airborne at
@@ -38,6 +40,9 @@ export const DIFFICULTY_SETTINGS = {
   },
 };
 
+// The engine simulates in fixed 60 FPS ticks regardless of frame rate
+export const FIXED_TIMESTEP_MS = 16.67;
+
 export const FAST_FALL_SPEED = 50; // Fast drop speed
 // Loose halves left after a clear drop quicker than a capsule so chains settle
 // briskly, but stay slow enough that the player can still grab and steer them
@@ -55,7 +60,26 @@ export const MAX_CONCURRENT_PILLS = 4;
 // A piece released while resting on support locks after the remaining
 // (1 - GROUNDED_RELEASE_LOCK) fraction of a fall interval
 export const GROUNDED_RELEASE_LOCK = 0.6;
-export const SPAWN_X = 3; // entry column (capsule occupies SPAWN_X and SPAWN_X + 1)
+
+// Time attack: the clock starts here, every germ cleared wins time back
+// (multiplied by the chain link it was cleared in), and clearing the whole
+// tray adds a bonus on top
+export const TIME_ATTACK_START_MS = 60_000;
+export const TIME_PER_GERM_MS = 1_500;
+export const TIME_WAVE_BONUS_MS = 10_000;
+
+// Sprint: a fixed germ count spread through most of a tall tray, cleared
+// against a clock that counts up; a split is taken every SPRINT_SPLIT_GERMS
+export const SPRINT_GERMS = 40;
+export const SPRINT_SPLIT_GERMS = 10;
+export const SPRINT_BOARD_USAGE = 0.85;
+// Sprint is played on a tray taller than the standard one
+export const SPRINT_BOARD_SIZE = { width: 8, height: 20 };
+
+// Hints: each level (or Endless wave) allows a few, and every hint used
+// takes a share off that level's clear bonus
+export const HINTS_PER_LEVEL = 3;
+export const HINT_BONUS_PENALTY = 0.25;
 
 // Classic Dr. Mario virus count formula
 export const getVirusCount = (level: number): number => {
@@ -73,24 +97,18 @@ export enum Color {
   RED = 'RED',
   BLUE = 'BLUE',
   YELLOW = 'YELLOW',
+  GREEN = 'GREEN',
+  PURPLE = 'PURPLE',
 }
 
-export const COLOR_VALUES = {
-  [Color.RED]: theme.colors.primary.red,
-  [Color.BLUE]: theme.colors.secondary.blue,
-  [Color.YELLOW]: theme.colors.tertiary.yellow,
-};
-
-export const COLOR_GRADIENTS = {
-  [Color.RED]: theme.colors.pill.red,
-  [Color.BLUE]: theme.colors.pill.blue,
-  [Color.YELLOW]: theme.colors.pill.yellow,
-};
+// A run plays with the first N colors above: three in the classic game,
+// more in expert play
+export const DEFAULT_COLOR_COUNT = 3;
+export const EXPERT_COLOR_COUNT = 4;
 
-export const VIRUS_GRADIENTS = {
-  [Color.RED]: theme.colors.virus.red,
-  [Color.BLUE]: theme.colors.virus.blue,
-  [Color.YELLOW]: theme.colors.virus.yellow,
+export const paletteFor = (count: number): Color[] => {
+  const colors = Object.values(Color) as Color[];
+  return colors.slice(0, Math.min(Math.max(count, DEFAULT_COLOR_COUNT), colors.length));
 };
 
 export enum GameState {
@@ -0,0 +1,34 @@
+// Typed publish/subscribe for events shaped { type, ...payload }. Any number
+// of listeners per type; on() hands back the matching unsubscribe, so a
+// React effect can return it as its cleanup.
+export class EventBus<E extends { type: string }> {
+  private listeners = new Map<E['type'], Set<(event: E) => void>>();
+  private anyListeners = new Set<(event: E) => void>();
+
+  on<K extends E['type']>(type: K, listener: (event: Extract<E, { type: K }>) => void): () => void {
+    const set = this.listeners.get(type) ?? new Set();
+    set.add(listener as (event: E) => void);
+    this.listeners.set(type, set);
+    return () => this.off(type, listener);
+  }
+
+  off<K extends E['type']>(type: K, listener: (event: Extract<E, { type: K }>) => void): void {
+    this.listeners.get(type)?.delete(listener as (event: E) => void);
+  }
+
+  // Every event, whatever its type
+  onAny(listener: (event: E) => void): () => void {
+    this.anyListeners.add(listener);
+    return () => {
+      this.anyListeners.delete(listener);
+    };
+  }
+
+  // Listeners run in the order they subscribed. Iterates a copy, so one that
+  // unsubscribes (or subscribes another) mid-event doesn't skip anyone.
+  emit(event: E): void {
+    const set = this.listeners.get(event.type);
+    if (set) [...set].forEach(listener => listener(event));
+    [...this.anyListeners].forEach(listener => listener(event));
+  }
+}
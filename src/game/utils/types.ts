@@ -1,5 +1,6 @@
-import { CellType, Color, Orientation } from './constants';
+import { CellType, Color, Direction, GameState, Orientation } from './constants';
 import { Board } from '../entities/Board';
+import { Placement } from '../ai/PlacementSearch';
 
 export interface Cell {
   type: CellType;
@@ -31,7 +32,7 @@ export interface Controllable {
   canMove(board: Board, dx: number, dy: number): boolean;
   move(dx: number, dy: number): void;
   canRotate(board: Board): boolean;
-  rotate(): void;
+  rotate(counterClockwise?: boolean): void;
   place(board: Board): void;
   getPositions(): Position[] | [Position, Position];
 }
@@ -51,6 +52,14 @@ export interface Virus {
 
 export interface GameBoard {
   cells: Cell[][];
+  width: number;
+  height: number;
+}
+
+// Tray dimensions in cells, chosen per run
+export interface BoardSize {
+  width: number;
+  height: number;
 }
 
 export enum SpeedSetting {
@@ -65,6 +74,23 @@ export enum GameMode {
   // Virus Buster style continuous play: clearing the board immediately
   // brings the next wave of viruses; the run ends only on game over
   ENDLESS = 'ENDLESS',
+  // A hand-authored board from a puzzle pack: fixed germs and capsules,
+  // one capsule in the air at a time, won by meeting the puzzle's goals
+  PUZZLE = 'PUZZLE',
+  // Two boards on the same germ layout and capsule sequence; combos send
+  // garbage halves across, and the first to top out loses
+  VERSUS = 'VERSUS',
+  // One board per calendar day, seeded from the date so everyone gets the
+  // same germs and capsules; only the first attempt each day is scored
+  DAILY = 'DAILY',
+  // Endless waves against a countdown: cleared germs add time, and the run
+  // ends when the clock runs out (or the tray tops out)
+  TIME_ATTACK = 'TIME_ATTACK',
+  // A single tray with a fixed number of germs; the clock counts up and the
+  // result is the time taken to clear it
+  SPRINT = 'SPRINT',
+  // Endless waves in more colors than the classic three
+  EXPERT = 'EXPERT',
 }
 
 export interface GameStats {
@@ -75,12 +101,81 @@ export interface GameStats {
   capsulesPlaced: number;
   currentSpeedLevel: number;
   speedSetting: SpeedSetting;
+  // Hints taken this level; each one shrinks the clear bonus
+  hintsUsed: number;
+  // Capsules still to come in a puzzle with a move limit, else null
+  movesLeft: number | null;
+  // Time left on the time attack clock in ms, else null
+  timeLeftMs: number | null;
+  // Time on the sprint clock in ms, else null
+  elapsedMs: number | null;
+}
+
+// A board cell a piece or a clear touched, with the color it had
+export interface CellColor {
+  x: number;
+  y: number;
+  color: Color;
 }
 
-export type GameFeedbackEvent =
-  | { type: 'land' }
-  | { type: 'match'; cleared: number; combo: number }
-  | { type: 'wave'; level: number };
+// Why a run ended: the entry columns walled off, the time attack clock ran
+// out, or a puzzle's last capsule settled short of its goals
+export type GameOverCause = 'toppedOut' | 'timeUp' | 'outOfMoves';
+
+// Everything a GameEngine reports, delivered through engine.events. The
+// engine only describes what happened; sounds, narration, effects and
+// garbage routing are all up to whoever listens.
+export type EngineEvent =
+  | { type: 'stateChanged'; state: GameState }
+  // A copy of the stats, safe to keep
+  | { type: 'statsChanged'; stats: GameStats }
+  // Anything drawn on the board moved; read it back from the engine.
+  // Fires every tick something falls, so keep listeners cheap.
+  | { type: 'boardChanged' }
+  // A capsule entered the tray, its left half over column
+  | { type: 'capsuleSpawned'; pieceId: string; column: number; colors: [Color, Color] }
+  // A piece settled into the board. capsule is false for lone halves
+  // (debris and garbage).
+  | { type: 'pieceLocked'; pieceId: string; cells: CellColor[]; capsule: boolean }
+  // Every cell one link of a chain emptied, each counted once
+  | { type: 'cellsCleared'; cells: (CellColor & { germ: boolean })[] }
+  // One link of a chain scored. colors: one per run cleared.
+  // timeAddedMs: seconds won back on the time attack clock, else 0
+  | { type: 'chainStep'; combo: number; cleared: number; colors: Color[]; timeAddedMs: number }
+  // The board settled with nothing left to match; length is the last combo
+  | { type: 'chainEnded'; length: number }
+  // Endless waves: the tray was cleared and the next wave is on its way...
+  | { type: 'waveCleared'; level: number }
+  // ...and its germs have arrived
+  | { type: 'waveStarted'; level: number }
+  // Sprint: another SPRINT_SPLIT_GERMS germs cleared, at elapsedMs
+  | { type: 'split'; germs: number; elapsedMs: number }
+  // Player input that took effect (a blocked move or rotation sends nothing)
+  | { type: 'moved' }
+  | { type: 'rotated' }
+  | { type: 'hardDropped' }
+  | { type: 'paused' }
+  | { type: 'resumed' }
+  | { type: 'levelComplete' }
+  | { type: 'gameOver'; cause: GameOverCause };
+
+export type EngineEventType = EngineEvent['type'];
+
+// The event with a given type, e.g. EngineEventOf<'chainStep'>
+export type EngineEventOf<K extends EngineEventType> = Extract<EngineEvent, { type: K }>;
+
+// Sound and haptic cues, played by the app in response to the engine's
+// events (see playFeedbackAudio); the engine itself never makes a
+// sound, so it runs anywhere
+export interface FeedbackSounds {
+  playMove(): void;
+  playRotate(): void;
+  playDrop(): void;
+  playMatch(): void;
+  playCombo(): void;
+  playLevelComplete(): void;
+  playGameOver(): void;
+}
 
 export interface SplitResult {
   position: Position;
@@ -94,8 +189,9 @@ export interface SavedGameState {
   lastPlayed: string;
 }
 
-// A resumable snapshot of an in-progress Endless run. Only occupied cells are
-// stored; in-flight falling capsules are dropped and respawn fresh on load.
+// Version 1 of the saved-run format, Endless only. Only occupied cells are
+// stored; in-flight falling capsules were dropped and respawned fresh on
+// load. Still read (see migrateSnapshot), no longer written.
 export interface EndlessCell {
   x: number;
   y: number;
@@ -114,3 +210,161 @@ export interface EndlessSnapshot {
   nextColors: [Color, Color];
   lastPlayed: string;
 }
+
+// --- Engine snapshots ---
+
+// One airborne piece exactly as the engine holds it. colors has two entries
+// for a capsule (left/top first) and one for a lone half; orientation is
+// null for a lone half.
+export interface PieceSnapshot {
+  id: string;
+  kind: 'capsule' | 'half';
+  position: Position;
+  orientation: Orientation | null;
+  colors: Color[];
+  isActive: boolean;
+  isUserControllable: boolean;
+  fallOffset: number;
+  held: boolean;
+  fastDrop: boolean;
+  debris: boolean;
+}
+
+// The complete simulation state of a run in any mode (GameEngine.serialize).
+// Deserializing it and stepping on gives the same ticks, the same capsules
+// and the same score as the run it was taken from, and the input log rides
+// along so the run stays replayable. Plain JSON throughout.
+export interface EngineSnapshot {
+  version: 2;
+  mode: GameMode;
+  state: GameState;
+  boardSize: BoardSize;
+  // Occupied cells only
+  cells: EndlessCell[];
+  stats: GameStats;
+  pieces: PieceSnapshot[];
+  selectedPieceId: string | null;
+  nextPiece: PieceSnapshot | null;
+  grabStart: Position | null;
+  combo: number;
+  waveDelay: number;
+  spawnCooldown: number;
+  // Time banked toward the next fixed step, in ms
+  accumulator: number;
+  seed: number;
+  rngState: number;
+  tick: number;
+  entitySeq: number;
+  inputLog: ReplayEntry[] | null;
+  runStart: { level: number; initialScore: number };
+  hint: { pieceId: string; placement: Placement } | null;
+  puzzle: PuzzleLevel | null;
+  puzzleCapsuleIndex: number;
+  pendingGarbage: Color[];
+  palette: Color[];
+  splits: number[];
+  // When the snapshot was taken, as an ISO timestamp
+  lastPlayed: string;
+}
+
+// --- Input replays ---
+
+// One player command as it reached the engine. Replaying the same commands
+// at the same ticks on the same seed reproduces the run exactly.
+export type ReplayCommand =
+  | { type: 'grab'; pillId: string }
+  | { type: 'drag'; translationX: number; translationY: number }
+  | { type: 'release' }
+  | { type: 'rotateById'; pillId: string }
+  // counterClockwise is left out for clockwise turns, as logs always had it
+  | { type: 'rotate'; counterClockwise?: boolean }
+  | { type: 'move'; direction: Direction }
+  | { type: 'drop' }
+  | { type: 'fastDrop'; fast: boolean }
+  | { type: 'switch' }
+  | { type: 'select'; pillId: string }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'hint' }
+  | { type: 'garbage'; colors: Color[] };
+
+export interface ReplayEntry {
+  // Fixed-timestep ticks completed before the command arrived
+  tick: number;
+  command: ReplayCommand;
+}
+
+export interface ReplayLog {
+  version: number;
+  seed: number;
+  level: number;
+  initialScore: number;
+  speedSetting: SpeedSetting;
+  mode: GameMode;
+  commands: ReplayEntry[];
+  // Outcome at the time the log was taken, used to verify playback
+  ticks: number;
+  finalScore: number;
+  finalState: GameState;
+  recordedAt: string;
+  // Puzzle runs carry their level, since there's no seed to rebuild it from
+  puzzle?: PuzzleLevel;
+  // Tray the run was played on; absent for the standard size
+  boardSize?: BoardSize;
+  // Colors in play; absent for the classic three
+  colorCount?: number;
+}
+
+// --- Puzzle levels ---
+
+// What a puzzle asks for; every goal listed must hold at once
+export type PuzzleGoal =
+  | { type: 'clearGerms' }
+  | { type: 'clearColor'; color: Color }
+  | { type: 'score'; target: number };
+
+// Version 1 of the hand-authored level format (see PuzzleFormat.ts for the
+// board legend and validation rules)
+export interface PuzzleLevel {
+  version: 1;
+  id: string;
+  name: string;
+  // One string per row, top to bottom
+  board: string[];
+  // Capsule colors in spawn order; repeats from the start when used up
+  capsules: Array<[Color, Color]>;
+  // Capsules the player may use; omitted for no limit
+  moveLimit?: number;
+  goals: PuzzleGoal[];
+}
+
+export interface PuzzlePack {
+  id: string;
+  name: string;
+  puzzles: PuzzleLevel[];
+}
+
+// --- Daily challenge ---
+
+// The scored attempt for one day. Saved when the attempt starts (score 0,
+// finished false) so quitting part way still uses up the day.
+export interface DailyResult {
+  // Local calendar date, YYYY-MM-DD
+  date: string;
+  score: number;
+  cleared: boolean;
+  finished: boolean;
+}
+
+// --- Sprint ---
+
+// A cleared sprint: the clear time and the clock at each split, in ms
+export interface SprintRecord {
+  timeMs: number;
+  splitsMs: number[];
+  // ISO timestamp of the run
+  date: string;
+}
+
+// Personal best per difficulty
+export type SprintBests = Partial<Record<SpeedSetting, SprintRecord>>;
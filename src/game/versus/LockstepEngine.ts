@@ -0,0 +1,73 @@
+import { GameEngine } from '../GameEngine';
+import { applyReplayCommand } from '../replay/ReplayPlayer';
+import { Direction } from '../utils/constants';
+import { NetInput } from './NetProtocol';
+
+// A GameEngine whose player inputs can be held back. While onInput is set,
+// the input API (keyboard and touch alike) hands each command to it instead
+// of acting, and the lockstep session feeds it back through apply() on the
+// tick both clients agreed on. Return values of deferred calls are
+// optimistic: the command hasn't been tried yet.
+export class LockstepEngine extends GameEngine {
+  onInput: ((command: NetInput) => void) | null = null;
+  private applying: boolean = false;
+
+  apply(command: NetInput): void {
+    this.applying = true;
+    try {
+      applyReplayCommand(this, command);
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  private defer(command: NetInput): boolean {
+    if (this.applying || !this.onInput) return false;
+    this.onInput(command);
+    return true;
+  }
+
+  grabPill(pillId: string): boolean {
+    return this.defer({ type: 'grab', pillId }) || super.grabPill(pillId);
+  }
+
+  dragHeldPill(translationX: number, translationY: number): void {
+    if (!this.defer({ type: 'drag', translationX, translationY })) super.dragHeldPill(translationX, translationY);
+  }
+
+  releaseHeldPill(): void {
+    if (!this.defer({ type: 'release' })) super.releaseHeldPill();
+  }
+
+  rotatePillById(pillId: string): boolean {
+    return this.defer({ type: 'rotateById', pillId }) || super.rotatePillById(pillId);
+  }
+
+  movePill(direction: Direction): void {
+    if (!this.defer({ type: 'move', direction })) super.movePill(direction);
+  }
+
+  rotatePill(counterClockwise: boolean = false): void {
+    if (!this.defer(counterClockwise ? { type: 'rotate', counterClockwise } : { type: 'rotate' })) super.rotatePill(counterClockwise);
+  }
+
+  dropPill(): void {
+    if (!this.defer({ type: 'drop' })) super.dropPill();
+  }
+
+  setFastDrop(fast: boolean): void {
+    if (!this.defer({ type: 'fastDrop', fast })) super.setFastDrop(fast);
+  }
+
+  switchToNextPill(): void {
+    if (!this.defer({ type: 'switch' })) super.switchToNextPill();
+  }
+
+  selectPillById(pillId: string): boolean {
+    return this.defer({ type: 'select', pillId }) || super.selectPillById(pillId);
+  }
+
+  requestHint(): boolean {
+    return this.defer({ type: 'hint' }) || super.requestHint();
+  }
+}
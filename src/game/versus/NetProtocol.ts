@@ -0,0 +1,96 @@
+import { Color } from '../utils/constants';
+import { isReplayCommand } from '../replay/ReplayPlayer';
+import { ReplayCommand, SpeedSetting } from '../utils/types';
+import { PlayerIndex } from './VersusMatch';
+
+// Bumped whenever a message changes shape; the relay refuses to pair
+// clients that disagree
+export const NET_PROTOCOL_VERSION = 2;
+
+// Inputs a peer may send. Pause, resume and garbage are never accepted
+// over the wire: a networked match can't be paused, and garbage is worked
+// out by each client's own simulation.
+export type NetInput = Exclude<ReplayCommand, { type: 'pause' } | { type: 'resume' } | { type: 'garbage' }>;
+
+// Client -> relay
+//   join      enter a room; the first two clients in a room are paired
+// Relay -> client
+//   matched   paired: which board is yours (player 0 hosts)
+//   peerLeft  the other client disconnected
+//   error     the relay refused the request
+// Client -> relay -> peer
+//   start     seed exchange: the host picks seed, level and speed
+//   input     every input for one tick of the sender's board; one is sent
+//             for every tick, empty or not, so the peer knows it may step
+//   garbage   halves the sender's board sent at a tick
+//   topOut    the sender's board filled up at a tick
+// garbage and topOut are reports, not commands: both clients simulate both
+// boards and compare the reports with their own results to catch desyncs.
+export type NetMessage =
+  | { type: 'join'; room: string; version: number }
+  | { type: 'matched'; player: PlayerIndex }
+  | { type: 'peerLeft' }
+  | { type: 'error'; reason: string }
+  | { type: 'start'; seed: number; level: number; speedSetting: SpeedSetting }
+  | { type: 'input'; tick: number; commands: NetInput[] }
+  | { type: 'garbage'; tick: number; colors: Color[] }
+  | { type: 'topOut'; tick: number };
+
+const COLORS = Object.values(Color) as string[];
+const SPEEDS = Object.values(SpeedSetting) as string[];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isInteger = (value: unknown): value is number => Number.isInteger(value);
+
+const isTick = (value: unknown): value is number => isInteger(value) && value >= 0;
+
+const isSpeed = (value: unknown): value is SpeedSetting => SPEEDS.includes(value as string);
+
+const isColorList = (value: unknown): value is Color[] =>
+  Array.isArray(value) && value.every(color => COLORS.includes(color));
+
+const isNetInput = (value: unknown): value is NetInput =>
+  isReplayCommand(value) && value.type !== 'pause' && value.type !== 'resume' && value.type !== 'garbage';
+
+// Decode one frame off the wire. Anything malformed (or from a newer
+// protocol) comes back null so callers can drop it.
+export const parseNetMessage = (raw: string): NetMessage | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value)) return null;
+
+  switch (value.type) {
+    case 'join':
+      return typeof value.room === 'string' && isInteger(value.version)
+        ? { type: 'join', room: value.room, version: value.version }
+        : null;
+    case 'matched':
+      return value.player === 0 || value.player === 1 ? { type: 'matched', player: value.player } : null;
+    case 'peerLeft':
+      return { type: 'peerLeft' };
+    case 'error':
+      return typeof value.reason === 'string' ? { type: 'error', reason: value.reason } : null;
+    case 'start':
+      return isInteger(value.seed) && isInteger(value.level) && isSpeed(value.speedSetting)
+        ? { type: 'start', seed: value.seed >>> 0, level: value.level, speedSetting: value.speedSetting }
+        : null;
+    case 'input':
+      return isTick(value.tick) && Array.isArray(value.commands) && value.commands.every(isNetInput)
+        ? { type: 'input', tick: value.tick, commands: value.commands }
+        : null;
+    case 'garbage':
+      return isTick(value.tick) && isColorList(value.colors) ? { type: 'garbage', tick: value.tick, colors: value.colors } : null;
+    case 'topOut':
+      return isTick(value.tick) ? { type: 'topOut', tick: value.tick } : null;
+    default:
+      return null;
+  }
+};
+
+export const encodeNetMessage = (message: NetMessage): string => JSON.stringify(message);
@@ -0,0 +1,228 @@
+import { Color, FIXED_TIMESTEP_MS, GameState } from '../utils/constants';
+import { FeedbackSounds, EngineEventOf, SpeedSetting } from '../utils/types';
+import { randomSeed } from '../utils/random';
+import { LockstepEngine } from './LockstepEngine';
+import { NET_PROTOCOL_VERSION, NetInput, NetMessage } from './NetProtocol';
+import { VersusTransport } from './Transport';
+import { PlayerIndex, VersusMatch, garbageForLink } from './VersusMatch';
+
+// Ticks between pressing a key and it taking effect on both clients
+// (4 ticks ~ 67 ms). Round trips shorter than this never stall the match.
+export const INPUT_DELAY_TICKS = 4;
+
+// Real time the session will catch up on after a stall, in one go
+const MAX_BACKLOG_MS = 250;
+
+// connecting: opening the transport
+// waiting: in the room, no opponent yet (or the guest awaiting the seed)
+// playing: the match is running; check match.getOutcome() for the result
+// ended: the connection is over before the match was decided
+export type NetSessionStatus =
+  | { phase: 'connecting' }
+  | { phase: 'waiting' }
+  | { phase: 'playing'; player: PlayerIndex }
+  | { phase: 'ended'; reason: string };
+
+const other = (player: PlayerIndex): PlayerIndex => (player === 0 ? 1 : 0);
+
+const garbageReport = (tick: number, colors: Color[]): string => `garbage ${tick} ${colors.join(',')}`;
+const topOutReport = (tick: number): string => `topOut ${tick}`;
+
+// One client of a networked versus match. Both clients simulate both
+// boards from the same seed; only inputs cross the wire. Inputs made
+// before tick T are scheduled for tick T + INPUT_DELAY_TICKS and sent at
+// once, and no client takes fixed step T until it holds both players'
+// inputs for it, so both run identical simulations a few ticks behind
+// their own keypresses. The player 0 client hosts: it picks the seed,
+// level and speed.
+export class NetVersusSession {
+  readonly match: VersusMatch<LockstepEngine>;
+  private status: NetSessionStatus = { phase: 'connecting' };
+  private player: PlayerIndex = 0;
+  private tick: number = 0;
+  private accumulator: number = 0;
+  private stalled: boolean = false;
+  // Inputs per player keyed by the tick they apply on
+  private frames: [Map<number, NetInput[]>, Map<number, NetInput[]>] = [new Map(), new Map()];
+  private pendingInput: NetInput[] = [];
+  private sentThrough: number = INPUT_DELAY_TICKS - 1;
+  // What the peer reported about its board, and what our copy of its
+  // board did; compared in order to catch a desync
+  private peerReports: string[] = [];
+  private simulatedReports: string[] = [];
+
+  constructor(
+    private transport: VersusTransport,
+    private room: string,
+    private hostSettings: { level: number; speedSetting: SpeedSetting },
+    audio?: [FeedbackSounds, FeedbackSounds],
+    private onStatusChange?: (status: NetSessionStatus) => void
+  ) {
+    this.match = new VersusMatch(audio, () => new LockstepEngine());
+    this.match.engines.forEach((engine, i) => {
+      engine.events.on('chainStep', event => this.reportGarbage(i as PlayerIndex, event));
+    });
+    this.transport.setHandlers({
+      onOpen: () => {
+        this.transport.send({ type: 'join', room: this.room, version: NET_PROTOCOL_VERSION });
+        this.setStatus({ phase: 'waiting' });
+      },
+      onMessage: message => this.handleMessage(message),
+      onClose: reason => this.end(reason ?? 'Disconnected from the relay'),
+    });
+  }
+
+  getStatus(): NetSessionStatus {
+    return this.status;
+  }
+
+  getPlayer(): PlayerIndex {
+    return this.player;
+  }
+
+  // True while waiting on the peer's inputs for the next tick
+  isStalled(): boolean {
+    return this.stalled;
+  }
+
+  update(deltaTime: number): void {
+    if (this.status.phase !== 'playing') return;
+    this.accumulator = Math.min(this.accumulator + deltaTime, MAX_BACKLOG_MS);
+    while (this.accumulator >= FIXED_TIMESTEP_MS && this.advance()) {
+      this.accumulator -= FIXED_TIMESTEP_MS;
+    }
+  }
+
+  // Leave for good; no more status changes are reported
+  close(): void {
+    this.onStatusChange = undefined;
+    this.end('You left the match');
+    this.transport.close();
+  }
+
+  private setStatus(status: NetSessionStatus): void {
+    this.status = status;
+    this.onStatusChange?.(status);
+  }
+
+  // A decided match keeps its result when the connection drops afterwards
+  private end(reason: string): void {
+    if (this.status.phase === 'ended' || this.match.getOutcome()) return;
+    this.match.engines.forEach(engine => (engine.onInput = null));
+    this.setStatus({ phase: 'ended', reason });
+  }
+
+  private begin(seed: number, level: number, speedSetting: SpeedSetting): void {
+    this.match.start(level, speedSetting, seed);
+    this.tick = 0;
+    this.accumulator = 0;
+    this.frames = [new Map(), new Map()];
+    this.pendingInput = [];
+    this.sentThrough = INPUT_DELAY_TICKS - 1;
+    this.peerReports = [];
+    this.simulatedReports = [];
+    // Our board's inputs wait for their tick; touches on the opponent's
+    // board are swallowed
+    this.match.engines[this.player].onInput = command => this.pendingInput.push(command);
+    this.match.engines[other(this.player)].onInput = () => {};
+    this.setStatus({ phase: 'playing', player: this.player });
+  }
+
+  private handleMessage(message: NetMessage): void {
+    const peer = other(this.player);
+    switch (message.type) {
+      case 'matched':
+        this.player = message.player;
+        if (this.player === 0) {
+          const start = { type: 'start' as const, seed: randomSeed(), ...this.hostSettings };
+          this.transport.send(start);
+          this.begin(start.seed, start.level, start.speedSetting);
+        }
+        break;
+      case 'start':
+        if (this.player === 1 && this.status.phase === 'waiting') {
+          this.begin(message.seed, message.level, message.speedSetting);
+        }
+        break;
+      case 'input':
+        if (message.tick >= this.tick) this.frames[peer].set(message.tick, message.commands);
+        break;
+      case 'garbage':
+        this.peerReports.push(garbageReport(message.tick, message.colors));
+        this.checkReports();
+        break;
+      case 'topOut':
+        this.peerReports.push(topOutReport(message.tick));
+        this.checkReports();
+        break;
+      case 'peerLeft':
+        this.end('Your opponent left');
+        break;
+      case 'error':
+        this.end(message.reason);
+        break;
+    }
+  }
+
+  // One fixed step, if both players' inputs for it are in. Our own inputs
+  // for the tick INPUT_DELAY_TICKS ahead are closed off and sent first
+  // (once), so the peer is never left waiting on us.
+  private advance(): boolean {
+    if (this.match.getOutcome()) return false;
+    const peer = other(this.player);
+
+    const due = this.tick + INPUT_DELAY_TICKS;
+    if (this.sentThrough < due) {
+      this.frames[this.player].set(due, this.pendingInput);
+      this.transport.send({ type: 'input', tick: due, commands: this.pendingInput });
+      this.pendingInput = [];
+      this.sentThrough = due;
+    }
+
+    // Nobody sends inputs for the first few ticks
+    const peerInput = this.tick < INPUT_DELAY_TICKS ? [] : this.frames[peer].get(this.tick);
+    this.stalled = peerInput === undefined;
+    if (!peerInput) return false;
+
+    const inputs: [NetInput[], NetInput[]] = [[], []];
+    inputs[this.player] = this.frames[this.player].get(this.tick) ?? [];
+    inputs[peer] = peerInput;
+    this.frames.forEach(frames => frames.delete(this.tick));
+    inputs.forEach((commands, i) => commands.forEach(command => this.match.engines[i].apply(command)));
+
+    this.match.step();
+    this.tick++;
+
+    // A top-out decides the match, so this runs at most once per board
+    if (this.match.engines[this.player].getGameState() === GameState.GAME_OVER) {
+      this.transport.send({ type: 'topOut', tick: this.tick });
+    }
+    if (this.match.engines[peer].getGameState() === GameState.GAME_OVER) {
+      this.simulatedReports.push(topOutReport(this.tick));
+      this.checkReports();
+    }
+    return true;
+  }
+
+  private reportGarbage(player: PlayerIndex, event: EngineEventOf<'chainStep'>): void {
+    const garbage = garbageForLink(event.combo, event.colors);
+    if (garbage.length === 0) return;
+    const tick = this.match.engines[player].getTick();
+    if (player === this.player) {
+      this.transport.send({ type: 'garbage', tick, colors: garbage });
+    } else {
+      this.simulatedReports.push(garbageReport(tick, garbage));
+      this.checkReports();
+    }
+  }
+
+  private checkReports(): void {
+    while (this.peerReports.length > 0 && this.simulatedReports.length > 0) {
+      if (this.peerReports.shift() !== this.simulatedReports.shift()) {
+        this.end('The boards fell out of sync');
+        this.transport.close();
+        return;
+      }
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { NetMessage, encodeNetMessage, parseNetMessage } from './NetProtocol';
+
+export interface TransportHandlers {
+  onOpen?: () => void;
+  onMessage?: (message: NetMessage) => void;
+  // reason is set when the connection failed rather than being closed
+  onClose?: (reason?: string) => void;
+}
+
+// How a networked match talks to the relay. The session only needs
+// ordered, reliable delivery of whole messages; anything that provides it
+// (a WebSocket, a WebRTC data channel, an in-memory pair in tests) can be
+// plugged in.
+export interface VersusTransport {
+  send(message: NetMessage): void;
+  // Merged into the current handlers: only the ones given are replaced
+  setHandlers(handlers: TransportHandlers): void;
+  close(): void;
+}
+
+// Transport over the WebSocket global (browsers and React Native).
+// Malformed frames are dropped.
+export class WebSocketTransport implements VersusTransport {
+  private socket: WebSocket;
+  private handlers: TransportHandlers = {};
+  private closed: boolean = false;
+
+  constructor(url: string) {
+    this.socket = new WebSocket(url);
+    this.socket.onopen = () => this.handlers.onOpen?.();
+    this.socket.onmessage = event => {
+      if (typeof event.data !== 'string') return;
+      const message = parseNetMessage(event.data);
+      if (message) this.handlers.onMessage?.(message);
+    };
+    this.socket.onerror = () => this.finish(`Couldn't reach ${url}`);
+    this.socket.onclose = () => this.finish();
+  }
+
+  send(message: NetMessage): void {
+    if (this.socket.readyState === WebSocket.OPEN) this.socket.send(encodeNetMessage(message));
+  }
+
+  setHandlers(handlers: TransportHandlers): void {
+    this.handlers = { ...this.handlers, ...handlers };
+  }
+
+  close(): void {
+    this.closed = true;
+    this.socket.close();
+  }
+
+  // onerror is followed by onclose; report whichever comes first, once,
+  // and stay quiet after a close we asked for
+  private finish(reason?: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.handlers.onClose?.(reason);
+  }
+}
@@ -0,0 +1,110 @@
+import { GameEngine } from '../GameEngine';
+import { Color, FIXED_TIMESTEP_MS, GameState } from '../utils/constants';
+import { FeedbackSounds, EngineEventOf, GameMode, SpeedSetting } from '../utils/types';
+import { randomSeed } from '../utils/random';
+import { playFeedbackAudio } from '../audio/FeedbackAudio';
+
+export type PlayerIndex = 0 | 1;
+
+// winner null: both boards topped out (or cleared) on the same tick
+export interface VersusOutcome {
+  winner: PlayerIndex | null;
+  reason: 'topOut' | 'cleared';
+}
+
+// Most halves one chain can send, as in Dr. Mario
+const MAX_GARBAGE_PER_CHAIN = 4;
+
+// Halves one link of a chain sends: the second link sends two and every
+// later link one more, up to MAX_GARBAGE_PER_CHAIN for the whole chain.
+// Colors follow the runs that were cleared.
+export const garbageForLink = (combo: number, colors: Color[]): Color[] => {
+  if (combo < 2 || combo > MAX_GARBAGE_PER_CHAIN || colors.length === 0) return [];
+  const count = combo === 2 ? 2 : 1;
+  return Array.from({ length: count }, (_, i) => colors[i % colors.length]);
+};
+
+const other = (player: PlayerIndex): PlayerIndex => (player === 0 ? 1 : 0);
+
+// Two engines on one clock. Both start from the same seed (same germs,
+// same capsule sequence) and are stepped together in player order, one
+// fixed step at a time, so garbage always lands on the same tick for the
+// same inputs. The match is judged after every step.
+export class VersusMatch<E extends GameEngine = GameEngine> {
+  readonly engines: [E, E];
+  private accumulator: number = 0;
+  private outcome: VersusOutcome | null = null;
+  private seed: number = 0;
+
+  // The match subscribes to each board's events first, so anyone listening
+  // to an engine afterwards sees garbage already routed. createEngine lets
+  // a networked session use engines that hold inputs back for lockstep.
+  constructor(
+    audio?: [FeedbackSounds, FeedbackSounds],
+    createEngine: () => E = () => new GameEngine() as E
+  ) {
+    this.engines = [createEngine(), createEngine()];
+    this.engines.forEach((engine, i) => {
+      engine.events.on('chainStep', event => this.sendGarbage(i as PlayerIndex, event));
+      if (audio) engine.events.onAny(event => playFeedbackAudio(audio[i], event));
+    });
+  }
+
+  start(level: number, speedSetting: SpeedSetting, seed: number = randomSeed()): void {
+    this.seed = seed >>> 0;
+    this.accumulator = 0;
+    this.outcome = null;
+    this.engines.forEach(engine => engine.startGame(level, speedSetting, 0, GameMode.VERSUS, this.seed));
+  }
+
+  getSeed(): number {
+    return this.seed;
+  }
+
+  getOutcome(): VersusOutcome | null {
+    return this.outcome;
+  }
+
+  pause(): void {
+    this.engines.forEach(engine => engine.pause());
+  }
+
+  resume(): void {
+    this.engines.forEach(engine => engine.resume());
+  }
+
+  // Real-time driver: same accumulator scheme as GameEngine.update, but
+  // shared, so neither board can run ahead of the other
+  update(deltaTime: number): void {
+    this.accumulator += Math.min(deltaTime, 100);
+    while (this.accumulator >= FIXED_TIMESTEP_MS && !this.outcome) {
+      this.step();
+      this.accumulator -= FIXED_TIMESTEP_MS;
+    }
+  }
+
+  step(): void {
+    if (this.outcome) return;
+    this.engines.forEach(engine => engine.step());
+    this.outcome = this.judge();
+  }
+
+  private judge(): VersusOutcome | null {
+    const [one, two] = this.engines.map(engine => engine.getGameState());
+    const toppedOut = [one === GameState.GAME_OVER, two === GameState.GAME_OVER];
+    if (toppedOut[0] && toppedOut[1]) return { winner: null, reason: 'topOut' };
+    if (toppedOut[0]) return { winner: 1, reason: 'topOut' };
+    if (toppedOut[1]) return { winner: 0, reason: 'topOut' };
+    // Clearing every germ on your own board also wins, as in Dr. Mario
+    const cleared = [one === GameState.LEVEL_COMPLETE, two === GameState.LEVEL_COMPLETE];
+    if (cleared[0] && cleared[1]) return { winner: null, reason: 'cleared' };
+    if (cleared[0]) return { winner: 0, reason: 'cleared' };
+    if (cleared[1]) return { winner: 1, reason: 'cleared' };
+    return null;
+  }
+
+  private sendGarbage(player: PlayerIndex, event: EngineEventOf<'chainStep'>): void {
+    const garbage = garbageForLink(event.combo, event.colors);
+    if (garbage.length > 0) this.engines[other(player)].receiveGarbage(garbage);
+  }
+}
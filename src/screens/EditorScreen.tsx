@@ -0,0 +1,265 @@
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { SafeAreaView, ScrollView, Share, StyleSheet, Text, TextInput, TouchableOpacity, View, useWindowDimensions } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { StaticGrid, fixedLayout } from '../components/GameBoard';
+import { Board } from '../game/entities/Board';
+import { BOARD_HEIGHT, BOARD_WIDTH, CellType, Color, DEFAULT_COLOR_COUNT, paletteFor } from '../game/utils/constants';
+import { PuzzleGoal, PuzzleLevel } from '../game/utils/types';
+import {
+  PUZZLE_FORMAT_VERSION,
+  applyPuzzleBoard,
+  decodePuzzle,
+  describeGoal,
+  encodeBoard,
+  encodePuzzle,
+  parsePuzzle,
+  premadeRunErrors,
+} from '../game/puzzles/PuzzleFormat';
+import { SolveResult, describeStep, solvePuzzle } from '../game/puzzles/Solver';
+import { ColorStyle, DEFAULT_COLOR_STYLE, PALETTES } from '../utils/palette';
+import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+
+interface EditorScreenProps {
+  // Level to open with (the last play-tested draft, or null for a blank one)
+  initialPuzzle: PuzzleLevel | null;
+  savedPuzzles: PuzzleLevel[];
+  onPlayTest: (puzzle: PuzzleLevel) => void;
+  onSave: (puzzle: PuzzleLevel) => void;
+  onDelete: (id: string) => void;
+  onBack: () => void;
+  colorStyle?: ColorStyle;
+}
+
+type Tool = { type: CellType.VIRUS | CellType.PILL; color: Color } | { type: CellType.EMPTY };
+
+// Puzzle boards are written in the classic three colors
+const COLORS = paletteFor(DEFAULT_COLOR_COUNT);
+const TOOLS: Tool[] = [
+  ...COLORS.map(color => ({ type: CellType.VIRUS as const, color })),
+  ...COLORS.map(color => ({ type: CellType.PILL as const, color })),
+  { type: CellType.EMPTY },
+];
+const GOALS: PuzzleGoal[] = [{ type: 'clearGerms' }, ...COLORS.map(color => ({ type: 'clearColor' as const, color }))];
+const MAX_MOVE_LIMIT = 40;
+
+const toolLabel = (tool: Tool): string =>
+  tool.type === CellType.EMPTY ? 'Eraser' : `${tool.color.toLowerCase()} ${tool.type === CellType.VIRUS ? 'microbe' : 'capsule half'}`;
+const sameGoal = (a: PuzzleGoal, b: PuzzleGoal): boolean =>
+  a.type === b.type && (a.type !== 'clearColor' || (b.type === 'clearColor' && a.color === b.color));
+const newPuzzleId = (): string => `custom-${Date.now().toString(36)}`;
+
+export const EditorScreen: React.FC<EditorScreenProps> = ({ initialPuzzle, savedPuzzles, onPlayTest, onSave, onDelete, onBack, colorStyle = DEFAULT_COLOR_STYLE }) => {
+  const colors = PALETTES[colorStyle.palette].values;
+  // One Board for the screen's lifetime: StaticGrid memoizes on its version
+  const boardRef = useRef<Board | null>(null);
+  if (!boardRef.current) {
+    boardRef.current = new Board();
+    if (initialPuzzle) applyPuzzleBoard(boardRef.current, initialPuzzle);
+  }
+  const board = boardRef.current;
+  const [version, setVersion] = useState(board.version);
+  const [id, setId] = useState(initialPuzzle?.id ?? newPuzzleId());
+  const [name, setName] = useState(initialPuzzle?.name ?? '');
+  const [capsules, setCapsules] = useState<Array<[Color, Color]>>(initialPuzzle?.capsules ?? []);
+  const [moveLimit, setMoveLimit] = useState(initialPuzzle?.moveLimit ?? 0);
+  const [goal, setGoal] = useState<PuzzleGoal>(initialPuzzle?.goals[0] ?? GOALS[0]);
+  const [tool, setTool] = useState<Tool>(TOOLS[0]);
+  const [nextCapsule, setNextCapsule] = useState<[Color, Color]>([COLORS[0], COLORS[0]]);
+  const [importCode, setImportCode] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [solveResult, setSolveResult] = useState<SolveResult | null>(null);
+
+  const { width, height } = useWindowDimensions();
+  const layout = useMemo(() => {
+    const pitch = Math.floor(Math.min((Math.min(width, 560) - 80) / BOARD_WIDTH, (height * 0.55) / BOARD_HEIGHT));
+    return fixedLayout(Math.max(14, Math.min(34, pitch - 2)));
+  }, [width, height]);
+
+  const toolRef = useRef(tool);
+  toolRef.current = tool;
+  const paint = useCallback((x: number, y: number) => {
+    const current = toolRef.current;
+    board.setCell(x, y, current.type === CellType.EMPTY
+      ? { type: CellType.EMPTY, color: null }
+      : { type: current.type, color: current.color, pillId: current.type === CellType.PILL ? `puzzle-${x}-${y}` : undefined });
+    setVersion(board.version);
+    setMessage(null);
+  }, [board]);
+
+  const puzzle: PuzzleLevel = useMemo(() => ({
+    version: PUZZLE_FORMAT_VERSION,
+    id,
+    name: name.trim() || 'Untitled',
+    board: encodeBoard(board),
+    capsules,
+    ...(moveLimit > 0 ? { moveLimit } : {}),
+    goals: [goal],
+  }), [id, name, version, capsules, moveLimit, goal]);
+
+  // Everything the format requires, plus the generator's no-premade-run rule
+  const errors = useMemo(() => {
+    const result = parsePuzzle(puzzle);
+    return result.ok ? premadeRunErrors(puzzle) : result.errors;
+  }, [puzzle]);
+  const valid = errors.length === 0;
+
+  // A check only speaks for the layout it ran on
+  useEffect(() => setSolveResult(null), [puzzle]);
+
+  const load = (next: PuzzleLevel) => {
+    applyPuzzleBoard(board, next);
+    setVersion(board.version);
+    setId(next.id);
+    setName(next.name);
+    setCapsules(next.capsules);
+    setMoveLimit(next.moveLimit ?? 0);
+    setGoal(next.goals[0] ?? GOALS[0]);
+  };
+
+  const handleNew = () => {
+    load({ version: PUZZLE_FORMAT_VERSION, id: newPuzzleId(), name: '', board: encodeBoard(new Board()), capsules: [], goals: [GOALS[0]] });
+    setMessage(null);
+  };
+
+  const handleSave = () => {
+    onSave(puzzle);
+    setMessage(`Saved ${puzzle.name}`);
+  };
+
+  // Runs on the JS thread; the node budget keeps it to a second or so
+  const handleCheck = () => setSolveResult(solvePuzzle(puzzle));
+
+  const handleShare = async () => {
+    const code = encodePuzzle(puzzle);
+    setImportCode(code);
+    try {
+      await Share.share({ message: code });
+    } catch (error) {
+      console.error('Failed to share puzzle:', error);
+    }
+  };
+
+  const handleImport = () => {
+    const result = decodePuzzle(importCode);
+    if (!result.ok) {
+      setMessage(result.errors.join('\n'));
+      return;
+    }
+    load(result.puzzle);
+    setMessage(`Imported ${result.puzzle.name}`);
+  };
+
+  const chip = (label: string, selected: boolean, onPress: () => void, swatch?: Color, round?: boolean) => (
+    <TouchableOpacity key={label} accessibilityRole="button" accessibilityLabel={label} accessibilityState={{ selected }} onPress={onPress} style={[styles.chip, selected && styles.chipSelected]}>
+      {swatch && <View style={[styles.swatch, round && styles.swatchRound, { backgroundColor: colors[swatch] }]} />}
+      <Text style={styles.chipText}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <LinearGradient colors={[theme.colors.background, theme.colors.backgroundLight]} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity accessibilityRole="button" accessibilityLabel="Back to menu" onPress={onBack} style={styles.back}><Text style={styles.backText}>{'<'}</Text></TouchableOpacity>
+          <View><Text style={styles.kicker}>Puzzle editor</Text><Text style={styles.title}>{puzzle.name}</Text></View>
+          <View style={styles.spacer} />
+        </View>
+        <ScrollView contentContainerStyle={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <TextInput value={name} onChangeText={setName} placeholder="Puzzle name" placeholderTextColor={theme.colors.text.secondary} style={styles.input} accessibilityLabel="Puzzle name" maxLength={40} />
+
+          <Text style={styles.label}>Paint</Text>
+          <View style={styles.chipRow}>
+            {TOOLS.map(t => chip(toolLabel(t), t === tool, () => setTool(t), t.type === CellType.EMPTY ? undefined : t.color, t.type === CellType.VIRUS))}
+          </View>
+
+          <View style={styles.boardFrame}>
+            <View style={{ padding: layout.boardPadding }}>
+              <StaticGrid board={board} version={version} layout={layout} onCellPress={paint} colorStyle={colorStyle} />
+            </View>
+          </View>
+
+          <Text style={styles.label}>Capsules, in order{capsules.length > 0 ? ' (tap one to remove it)' : ''}</Text>
+          <View style={styles.chipRow}>
+            {capsules.length === 0 && <Text style={styles.note}>No capsules yet</Text>}
+            {capsules.map((pair, i) => (
+              <TouchableOpacity key={i} accessibilityRole="button" accessibilityLabel={`Remove capsule ${i + 1}, ${pair[0].toLowerCase()} and ${pair[1].toLowerCase()}`} onPress={() => setCapsules(capsules.filter((_, j) => j !== i))} style={styles.capsule}>
+                <View style={[styles.capsuleHalf, { backgroundColor: colors[pair[0]] }]} />
+                <View style={[styles.capsuleHalf, { backgroundColor: colors[pair[1]] }]} />
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.chipRow}>
+            {([0, 1] as const).map(half => COLORS.map(color => chip(`${half === 0 ? 'Left' : 'Right'} ${color.toLowerCase()}`, nextCapsule[half] === color, () => setNextCapsule(half === 0 ? [color, nextCapsule[1]] : [nextCapsule[0], color]), color)))}
+            {chip('Add capsule', false, () => setCapsules([...capsules, nextCapsule]))}
+          </View>
+
+          <Text style={styles.label}>Move limit</Text>
+          <View style={styles.chipRow}>
+            {chip('Fewer moves', false, () => setMoveLimit(Math.max(0, moveLimit - 1)))}
+            <Text style={styles.value}>{moveLimit > 0 ? moveLimit : 'None'}</Text>
+            {chip('More moves', false, () => setMoveLimit(Math.min(MAX_MOVE_LIMIT, moveLimit + 1)))}
+          </View>
+
+          <Text style={styles.label}>Goal</Text>
+          <View style={styles.chipRow}>
+            {GOALS.map(g => chip(describeGoal(g), sameGoal(g, goal), () => setGoal(g)))}
+          </View>
+
+          <View style={[styles.status, valid && styles.statusValid]} accessibilityLiveRegion="polite">
+            <Text style={styles.statusTitle}>{valid ? 'Ready to play' : 'Not playable yet'}</Text>
+            {errors.map(error => <Text key={error} style={styles.note}>{error}</Text>)}
+            {message && <Text style={styles.note}>{message}</Text>}
+          </View>
+
+          {solveResult && (
+            <View style={[styles.status, solveResult.status === 'solved' && styles.statusValid]} accessibilityLiveRegion="polite">
+              <Text style={styles.statusTitle}>
+                {solveResult.status === 'solved'
+                  ? `Solvable with ${solveResult.steps.length} capsule${solveResult.steps.length === 1 ? '' : 's'}`
+                  : solveResult.status === 'notFound'
+                    ? 'No solution found by search within the move limit'
+                    : 'Search gave up before finding an answer'}
+              </Text>
+              {solveResult.status === 'solved' && solveResult.steps.map((step, i) => <Text key={i} style={styles.note}>{describeStep(step, i)}</Text>)}
+            </View>
+          )}
+
+          <View style={styles.chipRow}>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Play-test puzzle" accessibilityState={{ disabled: !valid }} disabled={!valid} onPress={() => onPlayTest(puzzle)} style={[styles.action, styles.primaryAction, !valid && styles.disabled]}><Text style={styles.actionText}>Play-test</Text></TouchableOpacity>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Check the puzzle can be solved" accessibilityState={{ disabled: !valid }} disabled={!valid} onPress={handleCheck} style={[styles.action, !valid && styles.disabled]}><Text style={styles.actionText}>Check</Text></TouchableOpacity>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Save puzzle" accessibilityState={{ disabled: !valid }} disabled={!valid} onPress={handleSave} style={[styles.action, !valid && styles.disabled]}><Text style={styles.actionText}>Save</Text></TouchableOpacity>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Share puzzle code" accessibilityState={{ disabled: !valid }} disabled={!valid} onPress={handleShare} style={[styles.action, !valid && styles.disabled]}><Text style={styles.actionText}>Share</Text></TouchableOpacity>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Start a new puzzle" onPress={handleNew} style={styles.action}><Text style={styles.actionText}>New</Text></TouchableOpacity>
+          </View>
+
+          <Text style={styles.label}>Puzzle code</Text>
+          <TextInput value={importCode} onChangeText={setImportCode} placeholder="Paste a code to import" placeholderTextColor={theme.colors.text.secondary} style={[styles.input, styles.codeInput]} accessibilityLabel="Puzzle code" autoCapitalize="none" autoCorrect={false} multiline />
+          {chip('Import code', false, handleImport)}
+
+          {savedPuzzles.length > 0 && <Text style={styles.label}>Saved puzzles</Text>}
+          {savedPuzzles.map(saved => (
+            <View key={saved.id} style={styles.savedRow}>
+              <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Open ${saved.name}`} onPress={() => load(saved)} style={styles.savedName}><Text style={styles.actionText}>{saved.name}</Text></TouchableOpacity>
+              <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Delete ${saved.name}`} onPress={() => onDelete(saved.id)}><Text style={styles.delete}>Delete</Text></TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 }, safeArea: { flex: 1 }, header: { flexDirection: 'row', alignItems: 'center', padding: responsiveSpacing(20), gap: responsiveSpacing(16), maxWidth: 560, width: '100%', alignSelf: 'center' },
+  back: { width: 46, height: 46, borderRadius: 16, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, backText: { color: theme.colors.text.primary, fontSize: 25, fontWeight: '900' }, spacer: { flex: 1 }, kicker: { color: theme.colors.mint, fontSize: responsiveFontSize(12), fontWeight: '900' }, title: { color: theme.colors.text.primary, fontSize: responsiveFontSize(24), fontWeight: '900' },
+  content: { width: '100%', maxWidth: 560, alignSelf: 'center', paddingHorizontal: responsiveSpacing(20), paddingBottom: responsiveSpacing(28), gap: responsiveSpacing(10) },
+  label: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(12), fontWeight: '900', marginTop: responsiveSpacing(8) }, note: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(12), fontWeight: '700' }, value: { color: theme.colors.text.primary, fontSize: responsiveFontSize(16), fontWeight: '900', minWidth: 48, textAlign: 'center' },
+  input: { minHeight: 46, borderRadius: theme.borderRadius.lg, paddingHorizontal: responsiveSpacing(14), color: theme.colors.text.primary, fontSize: responsiveFontSize(14), fontWeight: '700', backgroundColor: 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, codeInput: { minHeight: 70, paddingVertical: responsiveSpacing(10), fontSize: responsiveFontSize(11) },
+  chipRow: { flexDirection: 'row', flexWrap: 'wrap', alignItems: 'center', gap: responsiveSpacing(8) }, chip: { flexDirection: 'row', alignItems: 'center', gap: 6, minHeight: 36, paddingHorizontal: responsiveSpacing(12), borderRadius: theme.borderRadius.round, backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, chipSelected: { backgroundColor: 'rgba(88,214,183,0.15)', borderColor: 'rgba(88,214,183,0.5)' }, chipText: { color: theme.colors.text.primary, fontSize: responsiveFontSize(12), fontWeight: '800' },
+  swatch: { width: 14, height: 14, borderRadius: 4 }, swatchRound: { borderRadius: 7 },
+  boardFrame: { alignSelf: 'center', borderRadius: theme.borderRadius.xl, padding: 10, borderWidth: 2, borderColor: theme.colors.boardBorder, backgroundColor: 'rgba(255,255,255,0.06)' },
+  capsule: { flexDirection: 'row', borderRadius: theme.borderRadius.round, overflow: 'hidden', borderWidth: 1, borderColor: 'rgba(255,255,255,0.3)' }, capsuleHalf: { width: 18, height: 18 },
+  status: { borderRadius: theme.borderRadius.lg, padding: responsiveSpacing(14), gap: 4, backgroundColor: 'rgba(255,255,255,0.06)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' }, statusValid: { backgroundColor: 'rgba(88,214,183,0.12)', borderColor: 'rgba(88,214,183,0.4)' }, statusTitle: { color: theme.colors.text.primary, fontSize: responsiveFontSize(14), fontWeight: '900' },
+  action: { flexGrow: 1, minHeight: 46, alignItems: 'center', justifyContent: 'center', paddingHorizontal: responsiveSpacing(14), borderRadius: theme.borderRadius.lg, backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, primaryAction: { backgroundColor: 'rgba(88,214,183,0.2)', borderColor: 'rgba(88,214,183,0.55)' }, disabled: { opacity: 0.4 }, actionText: { color: theme.colors.text.primary, fontSize: responsiveFontSize(13), fontWeight: '900' },
+  savedRow: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', minHeight: 48, paddingHorizontal: responsiveSpacing(16), borderRadius: theme.borderRadius.round, backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.1)' }, savedName: { flex: 1 }, delete: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(12), fontWeight: '900' },
+});
@@ -15,6 +15,15 @@ interface GameOverScreenProps {
   isWin: boolean;
   score: number;
   level: number;
+  // Hints taken on this level (they trimmed the clear bonus)
+  hintsUsed?: number;
+  // The run ended because the time attack clock ran out
+  timeUp?: boolean;
+  // Final score of the recording this run raced, if any
+  ghostScore?: number;
+  // Sprint clear time, and the best it's measured against (if there was one)
+  sprintTimeMs?: number;
+  sprintBestMs?: number;
   onRestart: () => void;
   onNextLevel?: () => void;
   onBackToMenu: () => void;
@@ -23,10 +32,27 @@ interface GameOverScreenProps {
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
+// Sprint clock as m:ss with 1 (live) or 3 (results) decimal places
+export const formatSprintTime = (ms: number, decimals: 1 | 3 = 3): string => {
+  const units = Math.floor(ms / (decimals === 1 ? 100 : 1));
+  const perSecond = decimals === 1 ? 10 : 1000;
+  const seconds = Math.floor(units / perSecond);
+  const fraction = String(units % perSecond).padStart(decimals, '0');
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}.${fraction}`;
+};
+
+// Signed seconds against a best: negative is ahead
+export const formatSprintDelta = (ms: number): string => `${ms < 0 ? '-' : '+'}${(Math.abs(ms) / 1000).toFixed(3)}`;
+
 export const GameOverScreen: React.FC<GameOverScreenProps> = ({
   isWin,
   score,
   level,
+  hintsUsed = 0,
+  timeUp = false,
+  ghostScore,
+  sprintTimeMs,
+  sprintBestMs,
   onRestart,
   onNextLevel,
   onBackToMenu,
@@ -72,6 +98,7 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
     opacity: interpolate(buttonScale.value, [0, 1], [0, 1]),
   }));
 
+  const newBest = sprintTimeMs !== undefined && (sprintBestMs === undefined || sprintTimeMs < sprintBestMs);
   const primaryAction = isWin && onNextLevel ? onNextLevel : onRestart;
   const primaryLabel = isWin && onNextLevel ? 'Continue' : 'Retry';
 
@@ -85,17 +112,17 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
             </View>
             <Text style={styles.kicker}>{isWin ? 'Level complete' : 'Run ended'}</Text>
             <Text style={[styles.title, isWin ? styles.winTitle : styles.loseTitle]}>
-              {isWin ? 'Lab Cleared' : 'Lab Overflow'}
+              {isWin ? 'Lab Cleared' : timeUp ? "Time's Up" : 'Lab Overflow'}
             </Text>
             <Text style={styles.subtitle}>
-              {isWin ? 'The tray is clean and ready for the next mix.' : 'So close. Reset the tray and try another run.'}
+              {newBest ? 'A new personal best for this speed.' : isWin ? 'The tray is clean and ready for the next mix.' : timeUp ? 'The clock ran out. Chains win back more time.' : 'So close. Reset the tray and try another run.'}
             </Text>
           </Animated.View>
 
           <Animated.View style={[styles.statsCard, contentAnimatedStyle]}>
             <View style={styles.scoreMeter}>
-              <Text style={styles.scoreLabel}>Score</Text>
-              <Text style={styles.scoreValue}>{score}</Text>
+              <Text style={styles.scoreLabel}>{sprintTimeMs !== undefined ? 'Time' : 'Score'}</Text>
+              <Text style={styles.scoreValue}>{sprintTimeMs !== undefined ? formatSprintTime(sprintTimeMs) : score}</Text>
             </View>
             <View style={styles.statGrid}>
               <View style={styles.statTile}>
@@ -106,6 +133,24 @@ export const GameOverScreen: React.FC<GameOverScreenProps> = ({
                 <Text style={styles.statLabel}>Seal</Text>
                 <Text style={styles.statValue}>{isWin ? 'Clean' : 'Ready'}</Text>
               </View>
+              {hintsUsed > 0 && (
+                <View style={styles.statTile}>
+                  <Text style={styles.statLabel}>Hints</Text>
+                  <Text style={styles.statValue}>{hintsUsed}</Text>
+                </View>
+              )}
+              {sprintTimeMs !== undefined && (
+                <View style={styles.statTile}>
+                  <Text style={styles.statLabel}>vs best</Text>
+                  <Text style={styles.statValue}>{sprintBestMs !== undefined ? formatSprintDelta(sprintTimeMs - sprintBestMs) : 'First'}</Text>
+                </View>
+              )}
+              {ghostScore !== undefined && (
+                <View style={styles.statTile}>
+                  <Text style={styles.statLabel}>vs ghost</Text>
+                  <Text style={styles.statValue}>{score >= ghostScore ? '+' : ''}{(score - ghostScore).toLocaleString()}</Text>
+                </View>
+              )}
             </View>
           </Animated.View>
 
@@ -1,5 +1,5 @@
 import React, { useEffect, useRef, useState } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, Platform, useWindowDimensions, AppState } from 'react-native';
+import { View, Text, StyleSheet, TouchableOpacity, SafeAreaView, Platform, useWindowDimensions, AppState, AccessibilityActionEvent } from 'react-native';
 
 const isWeb = Platform.OS === 'web';
 import { LinearGradient } from 'expo-linear-gradient';
@@ -14,43 +14,107 @@ import Animated, {
 import { GameEngine } from '../game/GameEngine';
 import { GameBoard } from '../components/GameBoard';
 import { GameControls } from '../components/GameControls';
-import { GameState, COLOR_VALUES } from '../game/utils/constants';
-import { GameStats, SpeedSetting, GameMode, GameFeedbackEvent, EndlessSnapshot } from '../game/utils/types';
-import { GameOverScreen } from './GameOverScreen';
+import { NarrationLiveRegion, useNarration } from '../components/Narration';
+import { GameState, HINTS_PER_LEVEL, SPRINT_SPLIT_GERMS, TIME_ATTACK_START_MS } from '../game/utils/constants';
+import { GameStats, SpeedSetting, GameMode, EngineEvent, EngineSnapshot, ReplayLog, PuzzleLevel, SprintRecord, BoardSize } from '../game/utils/types';
+import { describeGoal } from '../game/puzzles/PuzzleFormat';
+import { ReplayPlayer } from '../game/replay/ReplayPlayer';
+import { playFeedbackAudio } from '../game/audio/FeedbackAudio';
+import { GameOverScreen, formatSprintDelta, formatSprintTime } from './GameOverScreen';
 import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+import { COLOR_SYMBOLS, ColorStyle, DEFAULT_COLOR_STYLE, PALETTES } from '../utils/palette';
+import { describeColumn, describeEvent } from '../utils/narration';
+import { DEFAULT_KEY_REPEAT, KeyBindings, KeyRepeatSettings, SINGLE_PLAYER_KEYS, keyOwner, normalizeKey } from '../utils/keyBindings';
+import { SoundManager } from '../utils/SoundManager';
 
 interface GameScreenProps {
   level: number;
   speedSetting: SpeedSetting;
   gameMode: GameMode;
-  // When resuming an Endless run, the snapshot to restore (else null = fresh)
-  endlessSnapshot?: EndlessSnapshot | null;
+  // When resuming a saved Endless or Classic run, the snapshot to restore
+  // (else null = fresh)
+  resumeSnapshot?: EngineSnapshot | null;
+  // The level to play in PUZZLE mode
+  puzzle?: PuzzleLevel | null;
   onBackToMenu: () => void;
   onGameComplete: (level: number, totalScore: number) => void;
-  onEndlessCheckpoint?: (snapshot: EndlessSnapshot) => void;
-  onEndlessEnded?: () => void;
+  // Saving Endless and Classic runs: a snapshot to keep whenever the run is
+  // checkpointed, and word that the run is over and its save is stale
+  onCheckpoint?: (snapshot: EngineSnapshot) => void;
+  onCheckpointEnded?: () => void;
+  // Receives the input log of every run that ends (win or loss)
+  onRunFinished?: (replay: ReplayLog) => void;
+  onPuzzleSolved?: (puzzleId: string) => void;
   savedTotalScore: number;
   reducedMotion: boolean;
+  // Palette and symbols for pieces, from the accessibility settings
+  colorStyle?: ColorStyle;
+  // Keyboard controls from settings (web)
+  keyBindings?: KeyBindings;
+  keyRepeat?: KeyRepeatSettings;
+  // Shows the Hint button; hints are budgeted per level by the engine
+  hintsEnabled?: boolean;
+  landingGhost?: boolean;
+  // Narrate play on the web, where a screen reader can't be detected
+  webNarration?: boolean;
+  // A recorded run to race: the live run starts on its seed and level, and
+  // the recording plays alongside on a headless engine
+  ghost?: ReplayLog | null;
+  // Fixed board seed (the daily challenge); otherwise each run is random
+  seed?: number;
+  // Tray size for this game; the standard tray if omitted
+  boardSize?: BoardSize;
+  // Colors in play; the classic three if omitted
+  colorCount?: number;
+  // Called when the player starts the level over
+  onRunRestarted?: () => void;
+  // Sprint: the personal best at this speed, and where a cleared run goes
+  sprintBest?: SprintRecord | null;
+  onSprintCleared?: (record: SprintRecord) => void;
 }
 
 const AnimatedTouchableOpacity = Animated.createAnimatedComponent(TouchableOpacity);
 
+// Whole seconds as m:ss, rounded up so the clock reads 0:00 only at the end
+const formatClock = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
 export const GameScreen: React.FC<GameScreenProps> = ({
   level,
   speedSetting,
   gameMode,
-  endlessSnapshot,
+  resumeSnapshot,
+  puzzle,
   onBackToMenu,
   onGameComplete,
-  onEndlessCheckpoint,
-  onEndlessEnded,
+  onCheckpoint,
+  onCheckpointEnded,
+  onRunFinished,
+  onPuzzleSolved,
   savedTotalScore,
   reducedMotion,
+  colorStyle = DEFAULT_COLOR_STYLE,
+  keyBindings = SINGLE_PLAYER_KEYS,
+  keyRepeat = DEFAULT_KEY_REPEAT,
+  hintsEnabled = false,
+  landingGhost = true,
+  webNarration = false,
+  ghost = null,
+  seed,
+  boardSize,
+  colorCount,
+  onRunRestarted,
+  sprintBest = null,
+  onSprintCleared,
 }) => {
   const gameEngineRef = useRef<GameEngine | undefined>(undefined);
 
   // Initialize GameEngine only once
   if (!gameEngineRef.current) {
+    const soundManager = SoundManager.getInstance();
+    soundManager.initialize();
     gameEngineRef.current = new GameEngine();
   }
   const animationRef = useRef<number | null>(null);
@@ -68,11 +132,24 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     capsulesPlaced: 0,
     currentSpeedLevel: 0,
     speedSetting: speedSetting,
+    hintsUsed: 0,
+    movesLeft: puzzle?.moveLimit ?? null,
+    timeLeftMs: gameMode === GameMode.TIME_ATTACK ? TIME_ATTACK_START_MS : null,
+    elapsedMs: gameMode === GameMode.SPRINT ? 0 : null,
   });
   const [feedback, setFeedback] = useState<{ title: string; detail: string } | null>(null);
+  const ghostRef = useRef<ReplayPlayer | null>(null);
+  const [ghostStats, setGhostStats] = useState<GameStats | null>(null);
+  // The sprint best as it stood when this run began, so the result compares
+  // against it even after a new best is saved
+  const previousBestRef = useRef<SprintRecord | null>(sprintBest);
   // Measured px box available for the board, so it fits exactly between the
   // header and the bottom safe area instead of overflowing into them
   const [boardBox, setBoardBox] = useState<{ w: number; h: number } | null>(null);
+  const narration = useNarration(webNarration);
+  // Column a screen reader player is reading, moved with swipes up and down
+  // on the tray (or [ and ] on the web)
+  const readColumnRef = useRef(0);
 
   const headerOpacity = useSharedValue(0);
   const scoreScale = useSharedValue(1);
@@ -104,17 +181,22 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     );
   }, [gameState]);
 
-  const handleFeedback = (event: GameFeedbackEvent) => {
-    if (!reducedMotion) {
+  const handleEngineEvent = (event: EngineEvent) => {
+    playFeedbackAudio(SoundManager.getInstance(), event);
+    narration.announce(describeEvent(event));
+    // The tray reacts to pieces settling and clearing, not to every input
+    const pulses =
+      event.type === 'pieceLocked' || event.type === 'chainStep' || event.type === 'waveStarted' || event.type === 'split';
+    if (!reducedMotion && pulses) {
       boardPulse.value = withSequence(
-        withSpring(event.type === 'match' ? 1.025 : 0.992, { damping: 16, stiffness: 320 }),
+        withSpring(event.type === 'chainStep' ? 1.025 : 0.992, { damping: 16, stiffness: 320 }),
         withSpring(1, { damping: 16, stiffness: 260 })
       );
     }
-    if (event.type === 'match') {
+    if (event.type === 'chainStep') {
       setFeedback({
         title: event.combo > 1 ? `Chain x${event.combo}` : 'Clean match',
-        detail: `+${event.cleared * 100 * event.combo}`,
+        detail: `+${event.cleared * 100 * event.combo}${event.timeAddedMs > 0 ? `  +${Math.round(event.timeAddedMs / 1000)}s` : ''}`,
       });
       feedbackProgress.value = 0;
       feedbackProgress.value = withSequence(
@@ -122,56 +204,93 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         withTiming(1, { duration: reducedMotion ? 350 : 520 }),
         withTiming(0, { duration: reducedMotion ? 1 : 260 })
       );
-    } else if (event.type === 'wave') {
+    } else if (event.type === 'waveStarted') {
       setFeedback({ title: 'Fresh wave', detail: `Tray ${event.level}` });
       feedbackProgress.value = withSequence(withTiming(1, { duration: reducedMotion ? 1 : 180 }), withTiming(0, { duration: reducedMotion ? 500 : 900 }));
       // Checkpoint the Endless run at the start of every new wave
-      saveEndlessCheckpoint();
+      saveCheckpoint();
+    } else if (event.type === 'split') {
+      const bestSplit = previousBestRef.current?.splitsMs[event.germs / SPRINT_SPLIT_GERMS - 1];
+      setFeedback({
+        title: `${event.germs} germs`,
+        detail: `${formatSprintTime(event.elapsedMs)}${bestSplit !== undefined ? `  ${formatSprintDelta(event.elapsedMs - bestSplit)}` : ''}`,
+      });
+      feedbackProgress.value = withSequence(withTiming(1, { duration: reducedMotion ? 1 : 180 }), withTiming(0, { duration: reducedMotion ? 500 : 900 }));
+    } else if (event.type === 'paused') {
+      saveCheckpoint();
     }
   };
 
   // The snapshot to resume from is fixed for this mount
-  const initialSnapshotRef = useRef(endlessSnapshot);
+  const initialSnapshotRef = useRef(resumeSnapshot);
   // Latest persistence callbacks, read through refs so the engine's captured
   // handlers never call a stale version
-  const checkpointRef = useRef(onEndlessCheckpoint);
-  const endedRef = useRef(onEndlessEnded);
+  const checkpointRef = useRef(onCheckpoint);
+  const endedRef = useRef(onCheckpointEnded);
+  const runFinishedRef = useRef(onRunFinished);
+  const puzzleSolvedRef = useRef(onPuzzleSolved);
+  const sprintClearedRef = useRef(onSprintCleared);
   useEffect(() => {
-    checkpointRef.current = onEndlessCheckpoint;
-    endedRef.current = onEndlessEnded;
+    checkpointRef.current = onCheckpoint;
+    endedRef.current = onCheckpointEnded;
+    runFinishedRef.current = onRunFinished;
+    puzzleSolvedRef.current = onPuzzleSolved;
+    sprintClearedRef.current = onSprintCleared;
   });
 
-  // Persist the Endless run if it's still live (never resurrect a dead run)
-  const saveEndlessCheckpoint = () => {
-    if (gameMode !== GameMode.ENDLESS || !checkpointRef.current) return;
+  // Endless and Classic runs can be left and picked up later; a race
+  // against a recording never overwrites the player's own save
+  const savesRuns = (gameMode === GameMode.ENDLESS || gameMode === GameMode.CLASSIC) && !ghost;
+
+  // Persist the run if it's still live (never resurrect a dead run)
+  const saveCheckpoint = () => {
+    if (!savesRuns || !checkpointRef.current) return;
     const engine = gameEngineRef.current!;
     const state = engine.getGameState();
     if (state === GameState.PLAYING || state === GameState.PAUSED) {
-      checkpointRef.current(engine.serializeEndless());
+      checkpointRef.current(engine.serialize());
+    }
+  };
+
+  // Fresh board for this screen's level (or puzzle). A race starts both
+  // boards over, on the recording's seed.
+  const startRun = () => {
+    const engine = gameEngineRef.current!;
+    previousBestRef.current = sprintBest;
+    if (gameMode === GameMode.PUZZLE && puzzle) {
+      engine.startPuzzle(puzzle, speedSetting, ghost?.seed ?? seed);
+    } else {
+      engine.startGame(level, speedSetting, savedTotalScore, gameMode, ghost?.seed ?? seed, ghost?.boardSize ?? boardSize, ghost?.colorCount ?? colorCount);
+    }
+    if (ghost) {
+      ghostRef.current = new ReplayPlayer(ghost);
+      ghostRef.current.getEngine().events.on('statsChanged', event => setGhostStats(event.stats));
+      ghostRef.current.start();
+      setGhostStats(ghostRef.current.getEngine().getStats());
     }
   };
 
-  // Save on exit; a no-op for Classic
+  // Save on exit; a no-op for modes that don't save runs
   const handleExitToMenu = () => {
-    saveEndlessCheckpoint();
+    saveCheckpoint();
     onBackToMenu();
   };
 
   useEffect(() => {
     const engine = gameEngineRef.current!;
 
-    // The board renderer registers its own onBoardChange; this screen only
-    // needs the low-frequency state/stats updates
-    engine.setCallbacks({
-      onStateChange: setGameState,
-      onStatsChange: setStats,
-      onFeedback: handleFeedback,
-    });
+    // The board renderer listens for board changes itself; this screen
+    // takes the low-frequency state/stats updates and the game events
+    const unsubscribe = [
+      engine.events.on('stateChanged', event => setGameState(event.state)),
+      engine.events.on('statsChanged', event => setStats(event.stats)),
+      engine.events.onAny(handleEngineEvent),
+    ];
 
-    if (gameMode === GameMode.ENDLESS && initialSnapshotRef.current) {
-      engine.loadEndless(initialSnapshotRef.current);
+    if (initialSnapshotRef.current?.mode === gameMode) {
+      engine.deserialize(initialSnapshotRef.current);
     } else {
-      engine.startGame(level, speedSetting, savedTotalScore, gameMode);
+      startRun();
     }
     
     // Game loop
@@ -182,6 +301,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
       // Only update if the game is playing
       if (gameStateRef.current === GameState.PLAYING) {
         engine.update(deltaTime);
+        ghostRef.current?.advanceTo(engine.getTick());
       }
       
       animationRef.current = requestAnimationFrame(gameLoop);
@@ -190,29 +310,106 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     animationRef.current = requestAnimationFrame(gameLoop);
     
     return () => {
+      unsubscribe.forEach(off => off());
       if (animationRef.current) {
         cancelAnimationFrame(animationRef.current);
       }
     };
   }, [level, speedSetting, gameMode]);
 
-  // A finished Endless run can't be resumed: drop its save on game over
   useEffect(() => {
-    if (gameMode === GameMode.ENDLESS && gameState === GameState.GAME_OVER) {
+    if (gameMode === GameMode.PUZZLE && puzzle && gameState === GameState.LEVEL_COMPLETE) {
+      puzzleSolvedRef.current?.(puzzle.id);
+    }
+  }, [gameState, gameMode]);
+
+  // A finished run can't be resumed: drop its save on game over, or once a
+  // Classic tray is cleared (the next level starts from progress instead)
+  useEffect(() => {
+    if (savesRuns && (gameState === GameState.GAME_OVER || gameState === GameState.LEVEL_COMPLETE)) {
       endedRef.current?.();
     }
   }, [gameState, gameMode]);
 
+  // A cleared sprint reports its time and splits
+  useEffect(() => {
+    if (gameMode !== GameMode.SPRINT || gameState !== GameState.LEVEL_COMPLETE) return;
+    const engine = gameEngineRef.current!;
+    sprintClearedRef.current?.({
+      timeMs: Math.round(engine.getStats().elapsedMs ?? 0),
+      splitsMs: engine.getSplits(),
+      date: new Date().toISOString(),
+    });
+  }, [gameState, gameMode]);
+
+  // Hand the finished run's input log up so it can be kept and replayed
+  useEffect(() => {
+    if (gameState !== GameState.GAME_OVER && gameState !== GameState.LEVEL_COMPLETE) return;
+    const replay = gameEngineRef.current!.getReplay();
+    if (replay) runFinishedRef.current?.(replay);
+  }, [gameState]);
+
   // Checkpoint when the app is sent to the background (task switch, lock)
   useEffect(() => {
     const sub = AppState.addEventListener('change', (next) => {
       if (next === 'background' || next === 'inactive') {
-        saveEndlessCheckpoint();
+        // The clock must not run on while the app is away
+        if (gameMode === GameMode.TIME_ATTACK || gameMode === GameMode.SPRINT) gameEngineRef.current!.pause();
+        saveCheckpoint();
       }
     });
     return () => sub.remove();
   }, [gameMode]);
 
+  // Read a column aloud on request; screen reader users explore the tray
+  // this way instead of by sight
+  const readColumn = (x: number) => {
+    const board = gameEngineRef.current!.getBoard();
+    readColumnRef.current = Math.max(0, Math.min(board.width - 1, x));
+    narration.announce(describeColumn(board, readColumnRef.current));
+  };
+
+  // The columns under the capsule being steered, else the one that
+  // entered last
+  const readUnderCapsule = () => {
+    const engine = gameEngineRef.current!;
+    const pieces = engine.getAllFallingPills().filter(piece => piece.isActive && piece.isUserControllable);
+    const piece = engine.getSelectedPill() ?? pieces[pieces.length - 1];
+    if (!piece) {
+      narration.announce('No capsule falling');
+      return;
+    }
+    new Set(piece.getPositions().map(pos => pos.x)).forEach(readColumn);
+  };
+
+  const handleBoardAccessibilityAction = (event: AccessibilityActionEvent) => {
+    switch (event.nativeEvent.actionName) {
+      case 'increment':
+        readColumn(readColumnRef.current + 1);
+        break;
+      case 'decrement':
+        readColumn(readColumnRef.current - 1);
+        break;
+      case 'activate':
+        readUnderCapsule();
+        break;
+    }
+  };
+
+  // Web: C reads under the capsule, [ and ] step the reading column, unless
+  // the player has bound those keys to play
+  useEffect(() => {
+    if (!isWeb || !narration.enabled) return;
+    const handleKey = (event: KeyboardEvent) => {
+      if (keyOwner(keyBindings, normalizeKey(event.key))) return;
+      if (event.key === 'c' || event.key === 'C') readUnderCapsule();
+      else if (event.key === '[') readColumn(readColumnRef.current - 1);
+      else if (event.key === ']') readColumn(readColumnRef.current + 1);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [narration.enabled, keyBindings]);
+
   const handlePause = () => {
     const engine = gameEngineRef.current!;
     if (gameState === GameState.PLAYING) {
@@ -222,14 +419,23 @@ export const GameScreen: React.FC<GameScreenProps> = ({
     }
   };
 
+  const handleHint = () => {
+    SoundManager.getInstance().playButton();
+    gameEngineRef.current!.requestHint();
+  };
+
   const handleRestart = () => {
-    gameEngineRef.current!.startGame(level, speedSetting, savedTotalScore, gameMode);
+    onRunRestarted?.();
+    startRun();
   };
 
   const handleNextLevel = () => {
+    // The recording only covers the level it was made on
+    ghostRef.current = null;
+    setGhostStats(null);
     const currentStats = gameEngineRef.current!.getStats();
     onGameComplete(level, currentStats.score);
-    gameEngineRef.current!.startGame(level + 1, speedSetting, currentStats.score);
+    gameEngineRef.current!.startGame(level + 1, speedSetting, currentStats.score, gameMode, undefined, boardSize, colorCount);
   };
 
   const headerAnimatedStyle = useAnimatedStyle(() => ({
@@ -256,6 +462,11 @@ export const GameScreen: React.FC<GameScreenProps> = ({
         isWin={gameState === GameState.LEVEL_COMPLETE}
         score={stats.score}
         level={stats.level}
+        hintsUsed={stats.hintsUsed}
+        timeUp={stats.timeLeftMs === 0}
+        ghostScore={ghostRef.current ? ghost?.finalScore : undefined}
+        sprintTimeMs={gameMode === GameMode.SPRINT && gameState === GameState.LEVEL_COMPLETE && stats.elapsedMs !== null ? Math.round(stats.elapsedMs) : undefined}
+        sprintBestMs={previousBestRef.current?.timeMs}
         onRestart={handleRestart}
         onNextLevel={gameState === GameState.LEVEL_COMPLETE && gameMode === GameMode.CLASSIC ? handleNextLevel : undefined}
         onBackToMenu={onBackToMenu}
@@ -265,9 +476,11 @@ export const GameScreen: React.FC<GameScreenProps> = ({
   }
 
   const nextPillColors = gameEngineRef.current!.getNextPill()?.colors ?? [];
+  const pieceColors = PALETTES[colorStyle.palette].values;
+  const hintsLeft = HINTS_PER_LEVEL - stats.hintsUsed;
 
   return (
-    <GameControls gameEngine={gameEngineRef.current!}>
+    <GameControls gameEngine={gameEngineRef.current!} bindings={keyBindings} repeat={keyRepeat}>
       <LinearGradient
         colors={[theme.colors.background, theme.colors.backgroundLight]}
         style={styles.container}
@@ -276,8 +489,8 @@ export const GameScreen: React.FC<GameScreenProps> = ({
           <Animated.View style={[styles.header, headerAnimatedStyle]}>
             <View style={styles.hudBar}>
               <View style={styles.levelChip}>
-                <Text style={styles.hudLabel}>{gameMode === GameMode.ENDLESS ? 'Wave' : 'Level'}</Text>
-                <Text style={styles.levelValue}>{stats.level}</Text>
+                <Text style={styles.hudLabel}>{gameMode === GameMode.ENDLESS || gameMode === GameMode.EXPERT ? 'Wave' : gameMode === GameMode.PUZZLE ? 'Moves' : stats.timeLeftMs !== null || stats.elapsedMs !== null ? 'Time' : 'Level'}</Text>
+                <Text style={styles.levelValue}>{gameMode === GameMode.PUZZLE ? (stats.movesLeft ?? '-') : stats.timeLeftMs !== null ? formatClock(stats.timeLeftMs) : stats.elapsedMs !== null ? formatSprintTime(stats.elapsedMs, 1) : stats.level}</Text>
               </View>
               
               <Animated.View style={[styles.scoreCapsule, scoreAnimatedStyle]}>
@@ -302,6 +515,20 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                 <Text style={styles.contextText}>{stats.virusCount} microbes</Text>
               </View>
 
+              {hintsEnabled && (
+                <TouchableOpacity
+                  accessibilityRole="button"
+                  accessibilityLabel={`Show hint, ${hintsLeft} left`}
+                  accessibilityState={{ disabled: hintsLeft <= 0 }}
+                  onPress={handleHint}
+                  disabled={hintsLeft <= 0 || gameState !== GameState.PLAYING}
+                  activeOpacity={0.82}
+                  style={[styles.hintButton, hintsLeft <= 0 && styles.hintButtonSpent]}
+                >
+                  <Text style={styles.contextText}>Hint {hintsLeft}</Text>
+                </TouchableOpacity>
+              )}
+
               <View style={styles.nextWell}>
                 <Text style={styles.nextLabel}>Up next</Text>
                 <View style={styles.nextCapsule}>
@@ -310,14 +537,28 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                       key={index}
                       style={[
                         styles.nextCapsuleHalf,
-                        { backgroundColor: COLOR_VALUES[color] },
+                        { backgroundColor: pieceColors[color] },
                         index === 0 ? styles.nextCapsuleLeft : styles.nextCapsuleRight,
                       ]}
-                    />
+                    >
+                      {colorStyle.symbols && <Text style={styles.nextCapsuleSymbol}>{COLOR_SYMBOLS[color]}</Text>}
+                    </View>
                   ))}
                 </View>
               </View>
             </View>
+
+            {ghostStats && !showSidePanels && (
+              <Text style={styles.ghostLine} accessibilityLabel={`Ghost has ${ghostStats.virusCount} microbes left and ${ghostStats.score} points`}>
+                Ghost: {ghostStats.virusCount} microbes, {ghostStats.score.toLocaleString()}
+              </Text>
+            )}
+
+            {gameMode === GameMode.PUZZLE && puzzle && (
+              <Text style={styles.puzzleGoal}>
+                {puzzle.name}: {puzzle.goals.map(describeGoal).join(', ')}
+              </Text>
+            )}
           </Animated.View>
           
           <View
@@ -337,7 +578,7 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                 <View style={styles.sideStats}>
                   <Text style={styles.sidePanelTitle}>Game Stats</Text>
                   <View style={styles.sideStatItem}>
-                    <Text style={styles.sideStatLabel}>{gameMode === GameMode.ENDLESS ? 'Wave' : 'Level'}</Text>
+                    <Text style={styles.sideStatLabel}>{gameMode === GameMode.ENDLESS || gameMode === GameMode.TIME_ATTACK || gameMode === GameMode.EXPERT ? 'Wave' : 'Level'}</Text>
                     <Text style={styles.sideStatValue}>{stats.level}</Text>
                   </View>
                   <View style={styles.sideStatItem}>
@@ -354,23 +595,62 @@ export const GameScreen: React.FC<GameScreenProps> = ({
                   </View>
                   <View style={styles.sideStatItem}>
                     <Text style={styles.sideStatLabel}>Mode</Text>
-                    <Text style={styles.sideStatValue}>{gameMode === GameMode.ENDLESS ? 'Endless' : 'Classic'}</Text>
+                    <Text style={styles.sideStatValue}>{gameMode === GameMode.ENDLESS ? 'Endless' : gameMode === GameMode.PUZZLE ? 'Puzzle' : gameMode === GameMode.DAILY ? 'Daily' : gameMode === GameMode.TIME_ATTACK ? 'Time attack' : gameMode === GameMode.SPRINT ? 'Sprint' : gameMode === GameMode.EXPERT ? 'Expert' : 'Classic'}</Text>
                   </View>
+                  {gameMode === GameMode.SPRINT && (
+                    <View style={styles.sideStatItem}>
+                      <Text style={styles.sideStatLabel}>Best</Text>
+                      <Text style={styles.sideStatValue}>{previousBestRef.current ? formatSprintTime(previousBestRef.current.timeMs) : '-'}</Text>
+                    </View>
+                  )}
                 </View>
+
+                {ghostRef.current && ghostStats && (
+                  <View style={[styles.sideStats, styles.ghostPanel]}>
+                    <Text style={styles.sidePanelTitle}>Ghost</Text>
+                    <View style={styles.ghostBoard} pointerEvents="none">
+                      <GameBoard gameEngine={ghostRef.current.getEngine()} interactive={false} cellSize={9} reducedMotion colorStyle={colorStyle} />
+                    </View>
+                    <View style={styles.sideStatItem}>
+                      <Text style={styles.sideStatLabel}>Viruses Left</Text>
+                      <Text style={styles.sideStatValue}>{ghostStats.virusCount}</Text>
+                    </View>
+                    <View style={styles.sideStatItem}>
+                      <Text style={styles.sideStatLabel}>Score</Text>
+                      <Text style={styles.sideStatValue}>{ghostStats.score}</Text>
+                    </View>
+                    <View style={styles.sideStatItem}>
+                      <Text style={styles.sideStatLabel}>You</Text>
+                      <Text style={styles.sideStatValue}>{stats.score >= ghostStats.score ? '+' : ''}{stats.score - ghostStats.score}</Text>
+                    </View>
+                  </View>
+                )}
               </View>
             )}
 
+            <NarrationLiveRegion text={narration.liveText} />
+
             {/* Main game board */}
-            <Animated.View style={[styles.boardContainer, boardPulseStyle]}>
+            <Animated.View
+              style={[styles.boardContainer, boardPulseStyle]}
+              accessible={narration.enabled}
+              accessibilityRole="adjustable"
+              accessibilityLabel="Tray"
+              accessibilityHint="Swipe up or down to read the columns; double tap to read under the falling capsule"
+              accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }, { name: 'activate' }]}
+              onAccessibilityAction={handleBoardAccessibilityAction}
+            >
               <GameBoard
                 gameEngine={gameEngineRef.current!}
                 reducedMotion={reducedMotion}
                 availableWidth={boardBox?.w}
                 availableHeight={boardBox?.h}
+                showLandingGhost={landingGhost}
+                colorStyle={colorStyle}
               />
 
               {feedback && gameState === GameState.PLAYING && (
-                <Animated.View pointerEvents="none" style={[styles.feedbackToast, feedbackStyle]} accessibilityLiveRegion="polite">
+                <Animated.View pointerEvents="none" style={[styles.feedbackToast, feedbackStyle]} importantForAccessibility="no-hide-descendants" accessibilityElementsHidden>
                   <Text style={styles.feedbackTitle}>{feedback.title}</Text>
                   <Text style={styles.feedbackDetail}>{feedback.detail}</Text>
                 </Animated.View>
@@ -518,6 +798,25 @@ const styles = StyleSheet.create({
     borderWidth: 2,
     borderColor: 'rgba(255,255,255,0.24)',
   },
+  puzzleGoal: {
+    color: theme.colors.text.secondary,
+    fontSize: responsiveFontSize(13),
+    fontWeight: '700',
+    textAlign: 'center',
+    marginTop: responsiveSpacing(8),
+  },
+  hintButton: {
+    minHeight: 44,
+    justifyContent: 'center',
+    paddingHorizontal: responsiveSpacing(14),
+    borderRadius: theme.borderRadius.round,
+    backgroundColor: 'rgba(255,216,90,0.14)',
+    borderWidth: 1,
+    borderColor: 'rgba(255,216,90,0.32)',
+  },
+  hintButtonSpent: {
+    opacity: 0.45,
+  },
   contextText: {
     color: theme.colors.text.secondary,
     fontSize: responsiveFontSize(13),
@@ -549,6 +848,13 @@ const styles = StyleSheet.create({
     height: responsiveSpacing(22),
     borderWidth: 1,
     borderColor: 'rgba(255,255,255,0.45)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  nextCapsuleSymbol: {
+    color: 'rgba(20,26,40,0.72)',
+    fontSize: responsiveFontSize(11),
+    fontWeight: '900',
   },
   nextCapsuleLeft: {
     borderTopLeftRadius: 11,
@@ -676,6 +982,21 @@ const styles = StyleSheet.create({
     marginBottom: responsiveSpacing(16),
     textAlign: 'center',
   },
+  ghostPanel: {
+    marginTop: responsiveSpacing(16),
+  },
+  ghostBoard: {
+    alignItems: 'center',
+    opacity: 0.55,
+    marginBottom: responsiveSpacing(12),
+  },
+  ghostLine: {
+    color: theme.colors.text.secondary,
+    fontSize: responsiveFontSize(13),
+    fontWeight: '700',
+    textAlign: 'center',
+    marginTop: responsiveSpacing(8),
+  },
   sideStatItem: {
     flexDirection: 'row',
     justifyContent: 'space-between',
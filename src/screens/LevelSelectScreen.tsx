@@ -2,10 +2,18 @@ import React from 'react';
 import { SafeAreaView, ScrollView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+import { PuzzleLevel, PuzzlePack } from '../game/utils/types';
 
-interface LevelSelectScreenProps { unlockedLevel: number; onSelectLevel: (level: number) => void; onBack: () => void; }
+interface LevelSelectScreenProps {
+  unlockedLevel: number;
+  onSelectLevel: (level: number) => void;
+  puzzlePacks: PuzzlePack[];
+  solvedPuzzles: string[];
+  onSelectPuzzle: (puzzle: PuzzleLevel) => void;
+  onBack: () => void;
+}
 
-export const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ unlockedLevel, onSelectLevel, onBack }) => (
+export const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ unlockedLevel, onSelectLevel, puzzlePacks, solvedPuzzles, onSelectPuzzle, onBack }) => (
   <LinearGradient colors={[theme.colors.background, theme.colors.backgroundLight]} style={styles.container}>
     <SafeAreaView style={styles.safeArea}>
       <View style={styles.header}>
@@ -13,7 +21,8 @@ export const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ unlockedLe
         <View><Text style={styles.kicker}>Classic mode</Text><Text style={styles.title}>Lab trays</Text></View>
         <View style={styles.spacer} />
       </View>
-      <ScrollView contentContainerStyle={styles.grid} showsVerticalScrollIndicator={false}>
+      <ScrollView contentContainerStyle={styles.scroll} showsVerticalScrollIndicator={false}>
+        <View style={styles.grid}>
         {Array.from({ length: 20 }, (_, i) => i + 1).map(level => {
           const unlocked = level <= Math.max(1, unlockedLevel);
           const current = level === Math.max(1, unlockedLevel);
@@ -22,6 +31,22 @@ export const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ unlockedLe
             <View style={[styles.seal, unlocked && styles.sealOpen]} />
           </TouchableOpacity>;
         })}
+        </View>
+        {/* Hand-made boards: every puzzle in a pack is open from the start */}
+        {puzzlePacks.map(pack => (
+          <View key={pack.id} style={styles.pack}>
+            <Text style={styles.kicker}>Puzzles</Text><Text style={styles.packTitle}>{pack.name}</Text>
+            <View style={styles.grid}>
+              {pack.puzzles.map((puzzle, i) => {
+                const solved = solvedPuzzles.includes(puzzle.id);
+                return <TouchableOpacity key={puzzle.id} accessibilityRole="button" accessibilityLabel={`Play puzzle ${i + 1}, ${puzzle.name}${solved ? ', solved' : ''}`} onPress={() => onSelectPuzzle(puzzle)} activeOpacity={0.82} style={[styles.level, solved && styles.solved]}>
+                  <Text style={styles.levelLabel}>{solved ? 'SOLVED' : 'PUZZLE'}</Text><Text style={styles.levelNumber}>{i + 1}</Text>
+                  <Text style={styles.puzzleName} numberOfLines={2}>{puzzle.name}</Text>
+                </TouchableOpacity>;
+              })}
+            </View>
+          </View>
+        ))}
       </ScrollView>
     </SafeAreaView>
   </LinearGradient>
@@ -30,6 +55,7 @@ export const LevelSelectScreen: React.FC<LevelSelectScreenProps> = ({ unlockedLe
 const styles = StyleSheet.create({
   container: { flex: 1 }, safeArea: { flex: 1 }, header: { flexDirection: 'row', alignItems: 'center', padding: responsiveSpacing(20), gap: responsiveSpacing(16), maxWidth: 720, width: '100%', alignSelf: 'center' },
   back: { width: 46, height: 46, borderRadius: 16, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, backText: { color: theme.colors.text.primary, fontSize: 25, fontWeight: '900' }, spacer: { flex: 1 }, kicker: { color: theme.colors.mint, fontSize: responsiveFontSize(12), fontWeight: '900' }, title: { color: theme.colors.text.primary, fontSize: responsiveFontSize(28), fontWeight: '900' },
-  grid: { width: '100%', maxWidth: 720, alignSelf: 'center', paddingHorizontal: responsiveSpacing(20), paddingBottom: responsiveSpacing(28), flexDirection: 'row', flexWrap: 'wrap', gap: responsiveSpacing(12) },
+  scroll: { width: '100%', maxWidth: 720, alignSelf: 'center', paddingHorizontal: responsiveSpacing(20), paddingBottom: responsiveSpacing(28), gap: responsiveSpacing(24) }, grid: { flexDirection: 'row', flexWrap: 'wrap', gap: responsiveSpacing(12) },
+  pack: { gap: responsiveSpacing(8) }, packTitle: { color: theme.colors.text.primary, fontSize: responsiveFontSize(20), fontWeight: '900', marginBottom: responsiveSpacing(4) }, solved: { borderColor: 'rgba(88,214,183,0.5)' }, puzzleName: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(10), fontWeight: '700' },
   level: { width: '22%', minWidth: 84, aspectRatio: 1, borderRadius: theme.borderRadius.lg, padding: responsiveSpacing(14), backgroundColor: 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)', justifyContent: 'space-between' }, current: { backgroundColor: 'rgba(88,214,183,0.15)', borderColor: 'rgba(88,214,183,0.5)' }, locked: { opacity: 0.38 }, levelLabel: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(10), fontWeight: '900' }, levelNumber: { color: theme.colors.text.primary, fontSize: responsiveFontSize(28), fontWeight: '900' }, lockedText: { color: theme.colors.text.secondary }, seal: { width: 18, height: 7, borderRadius: 4, backgroundColor: 'rgba(255,255,255,0.22)', alignSelf: 'flex-end' }, sealOpen: { backgroundColor: theme.colors.mint },
 });
@@ -18,8 +18,11 @@ import Animated, {
   withSequence,
   withTiming,
 } from 'react-native-reanimated';
+import { DailyResult } from '../game/utils/types';
+import { EXPERT_COLOR_COUNT, SPRINT_GERMS } from '../game/utils/constants';
 import { theme, responsiveFontSize, responsiveSpacing, platformSelect } from '../utils/theme';
 import { SoundManager } from '../utils/SoundManager';
+import { AttractDemo } from '../components/AttractDemo';
 
 const isWeb = Platform.OS === 'web';
 
@@ -28,12 +31,23 @@ interface MenuScreenProps {
   onStartEndless: () => void;
   onResumeEndless: () => void;
   onContinueGame: () => void;
+  onResumeClassic: () => void;
   onOpenSettings: () => void;
   onOpenLevels: () => void;
   onOpenTutorial: () => void;
   onOpenStats: () => void;
+  onOpenEditor: () => void;
+  onStartVersus: () => void;
+  onStartDaily: () => void;
+  onStartTimeAttack: () => void;
+  onStartSprint: () => void;
+  onStartExpert: () => void;
+  // Today's attempt (null if not played yet) and the current day streak
+  dailyStatus: { today: DailyResult | null; streak: number };
   hasSavedGame: boolean;
   savedLevel?: number;
+  // Level of the Classic tray left part way through, or null
+  classicTray: number | null;
   hasEndlessSave: boolean;
   endlessWave?: number;
   reducedMotion: boolean;
@@ -83,6 +97,12 @@ const AmbientCapsule = memo(({ index, color }: { index: number; color: readonly
   );
 });
 
+const dailySublabel = ({ today, streak }: MenuScreenProps['dailyStatus']): string => {
+  const streakText = streak > 0 ? ` · ${streak}-day streak` : '';
+  if (!today) return `Today's board is waiting${streakText}`;
+  return `${today.finished ? `Today: ${today.score.toLocaleString()}` : 'Today: unfinished'}${streakText} · practice`;
+};
+
 const CapsuleButton = ({
   label,
   sublabel,
@@ -121,12 +141,21 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
   onStartEndless,
   onResumeEndless,
   onContinueGame,
+  onResumeClassic,
   onOpenSettings,
   onOpenLevels,
   onOpenTutorial,
   onOpenStats,
+  onOpenEditor,
+  onStartVersus,
+  onStartDaily,
+  onStartTimeAttack,
+  onStartSprint,
+  onStartExpert,
+  dailyStatus,
   hasSavedGame,
   savedLevel,
+  classicTray,
   hasEndlessSave,
   endlessWave,
   reducedMotion,
@@ -182,7 +211,11 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
       </Animated.View>
 
       <Animated.View style={[styles.contentWrapper, contentAnimatedStyle]}>
-        {hasSavedGame && (
+        {classicTray !== null ? (
+          <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Resume tray ${classicTray}`} onPress={onResumeClassic} activeOpacity={0.86} style={styles.continueChip}>
+            <Text style={styles.continueText}>Resume tray {classicTray}</Text>
+          </TouchableOpacity>
+        ) : hasSavedGame && (
           <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Continue level ${savedLevel}`} onPress={onContinueGame} activeOpacity={0.86} style={styles.continueChip}>
             <Text style={styles.continueText}>Continue level {savedLevel}</Text>
           </TouchableOpacity>
@@ -202,13 +235,25 @@ export const MenuScreen: React.FC<MenuScreenProps> = ({
             onPress={onStartEndless}
             variant="glass"
           />
+          <CapsuleButton label="Daily challenge" sublabel={dailySublabel(dailyStatus)} onPress={onStartDaily} variant="glass" />
+          <CapsuleButton label="Time attack" sublabel="Beat the clock, clears buy time" onPress={onStartTimeAttack} variant="glass" />
+          <CapsuleButton label="Sprint" sublabel={`Clear ${SPRINT_GERMS} germs, fastest time wins`} onPress={onStartSprint} variant="glass" />
+          <CapsuleButton label="Expert" sublabel={`Endless waves in ${EXPERT_COLOR_COUNT} colors`} onPress={onStartExpert} variant="glass" />
+          <CapsuleButton label="Versus" sublabel="Two players, one screen" onPress={onStartVersus} variant="glass" />
         </View>
 
         <View style={styles.utilityRow}>
           <TouchableOpacity accessibilityRole="button" accessibilityLabel="How to play" onPress={onOpenTutorial} style={styles.utilityButton}><Text style={styles.utilityIcon}>?</Text><Text style={styles.utilityText}>How to play</Text></TouchableOpacity>
           <TouchableOpacity accessibilityRole="button" accessibilityLabel="Open lab notes" onPress={onOpenStats} style={styles.utilityButton}><Text style={styles.utilityIcon}>#</Text><Text style={styles.utilityText}>Lab notes</Text></TouchableOpacity>
+          <TouchableOpacity accessibilityRole="button" accessibilityLabel="Open puzzle editor" onPress={onOpenEditor} style={styles.utilityButton}><Text style={styles.utilityIcon}>+</Text><Text style={styles.utilityText}>Editor</Text></TouchableOpacity>
         </View>
 
+        {!reducedMotion && (
+          <View style={styles.demoSlot}>
+            <AttractDemo />
+          </View>
+        )}
+
         <View style={styles.tutorialStrip}>
           <View style={styles.tutorialStep}>
             <View style={[styles.tutorialPill, styles.tutorialPillRed]} />
@@ -432,6 +477,9 @@ const styles = StyleSheet.create({
     fontWeight: '700',
     marginTop: 2,
   },
+  demoSlot: {
+    marginTop: responsiveSpacing(22),
+  },
   tutorialStrip: {
     width: '100%',
     maxWidth: 320,
@@ -447,7 +495,7 @@ const styles = StyleSheet.create({
   },
   utilityRow: {
     width: '100%',
-    maxWidth: 320,
+    maxWidth: 380,
     marginTop: responsiveSpacing(14),
     flexDirection: 'row',
     gap: responsiveSpacing(10),
@@ -0,0 +1,97 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { SafeAreaView, StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { GameBoard } from '../components/GameBoard';
+import { ReplayPlayer } from '../game/replay/ReplayPlayer';
+import { GameStats, GameMode, ReplayLog } from '../game/utils/types';
+import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+import { ColorStyle } from '../utils/palette';
+
+interface ReplayScreenProps {
+  replay: ReplayLog;
+  onBack: () => void;
+  reducedMotion: boolean;
+  colorStyle?: ColorStyle;
+}
+
+const SPEEDS = [1, 2, 4];
+
+// Watch a recorded run: a fresh engine is driven by the input log at real
+// time (or faster), and the board renders it without a touch layer.
+export const ReplayScreen: React.FC<ReplayScreenProps> = ({ replay, onBack, reducedMotion, colorStyle }) => {
+  const playerRef = useRef<ReplayPlayer | null>(null);
+  if (!playerRef.current) {
+    playerRef.current = new ReplayPlayer(replay);
+  }
+  const player = playerRef.current;
+  const [stats, setStats] = useState<GameStats>(player.getEngine().getStats());
+  const [speed, setSpeed] = useState(1);
+  const [finished, setFinished] = useState(false);
+  const speedRef = useRef(speed);
+  speedRef.current = speed;
+
+  useEffect(() => {
+    const engine = player.getEngine();
+    const unsubscribe = engine.events.on('statsChanged', event => setStats(event.stats));
+    player.start();
+
+    let frame: number | null = null;
+    let last = 0;
+    const loop = (timestamp: number) => {
+      if (last > 0) player.advance(timestamp - last, speedRef.current);
+      last = timestamp;
+      if (player.isFinished()) {
+        setFinished(true);
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => {
+      unsubscribe();
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [player]);
+
+  const cycleSpeed = () => setSpeed(SPEEDS[(SPEEDS.indexOf(speed) + 1) % SPEEDS.length]);
+
+  return (
+    <LinearGradient colors={[theme.colors.background, theme.colors.backgroundLight]} style={styles.container}>
+      <SafeAreaView style={styles.safeArea}>
+        <View style={styles.header}>
+          <TouchableOpacity accessibilityRole="button" accessibilityLabel="Back to lab notes" onPress={onBack} style={styles.back}>
+            <Text style={styles.backText}>{'<'}</Text>
+          </TouchableOpacity>
+          <View style={styles.headerText}>
+            <Text style={styles.kicker}>{replay.mode === GameMode.ENDLESS ? 'Endless replay' : replay.mode === GameMode.DAILY ? 'Daily replay' : replay.mode === GameMode.TIME_ATTACK ? 'Time attack replay' : replay.mode === GameMode.SPRINT ? 'Sprint replay' : replay.mode === GameMode.EXPERT ? 'Expert replay' : replay.puzzle ? `${replay.puzzle.name} replay` : `Tray ${replay.level} replay`}</Text>
+            <Text style={styles.title}>{stats.score.toLocaleString()}</Text>
+          </View>
+          <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Playback speed ${speed}x`} onPress={cycleSpeed} style={styles.speed}>
+            <Text style={styles.speedText}>{speed}x</Text>
+          </TouchableOpacity>
+        </View>
+        <View style={styles.boardArea}>
+          <GameBoard gameEngine={player.getEngine()} reducedMotion={reducedMotion} interactive={false} colorStyle={colorStyle} />
+        </View>
+        <Text style={styles.note}>
+          {finished ? 'End of recording.' : `${stats.virusCount} microbes left`}
+        </Text>
+      </SafeAreaView>
+    </LinearGradient>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  safeArea: { flex: 1 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', padding: responsiveSpacing(20), maxWidth: 560, width: '100%', alignSelf: 'center' },
+  back: { width: 46, height: 46, borderRadius: 16, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' },
+  backText: { color: theme.colors.text.primary, fontSize: 25, fontWeight: '900' },
+  headerText: { alignItems: 'center' },
+  kicker: { color: theme.colors.mint, fontSize: responsiveFontSize(12), fontWeight: '900' },
+  title: { color: theme.colors.text.primary, fontSize: responsiveFontSize(24), fontWeight: '900' },
+  speed: { width: 46, height: 46, borderRadius: 16, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' },
+  speedText: { color: theme.colors.text.primary, fontSize: responsiveFontSize(14), fontWeight: '900' },
+  boardArea: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  note: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(14), fontWeight: '700', textAlign: 'center', marginBottom: responsiveSpacing(18) },
+});
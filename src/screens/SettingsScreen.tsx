@@ -1,6 +1,7 @@
 import React, { useEffect, useState } from 'react';
 import {
   Modal,
+  Platform,
   SafeAreaView,
   ScrollView,
   StyleSheet,
@@ -18,23 +19,36 @@ import Animated, {
 } from 'react-native-reanimated';
 import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
 import { SpeedSetting } from '../game/utils/types';
-import { Storage } from '../utils/storage';
+import { Color, HINTS_PER_LEVEL } from '../game/utils/constants';
+import { GameSettings, Storage } from '../utils/storage';
+import { COLOR_SYMBOLS, PALETTES, PaletteName } from '../utils/palette';
+import {
+  DEFAULT_KEY_REPEAT,
+  DEFAULT_REPEAT_TIMING,
+  KEY_ACTIONS,
+  KEY_ACTION_LABELS,
+  KeyAction,
+  KeyRepeat,
+  REPEATABLE_ACTIONS,
+  SINGLE_PLAYER_KEYS,
+  keyLabel,
+  keyOwner,
+  normalizeKey,
+} from '../utils/keyBindings';
+
+const isWeb = Platform.OS === 'web';
+
+// Bounds for the repeat steppers, in ms
+const DAS_RANGE = { min: 50, max: 500, step: 10 };
+const ARR_RANGE = { min: 20, max: 300, step: 10 };
+// Keys an action can hold at once
+const MAX_KEYS_PER_ACTION = 3;
 import { SoundManager } from '../utils/SoundManager';
 
 interface SettingsScreenProps {
   onBackToMenu: () => void;
-  currentSettings: {
-    speedSetting: SpeedSetting;
-    soundEnabled: boolean;
-    hapticsEnabled: boolean;
-    reducedMotion: boolean;
-  };
-  onSettingsChange: (settings: {
-    speedSetting: SpeedSetting;
-    soundEnabled: boolean;
-    hapticsEnabled: boolean;
-    reducedMotion: boolean;
-  }) => void;
+  currentSettings: GameSettings;
+  onSettingsChange: (settings: GameSettings) => void;
 }
 
 const speedLabels: Record<SpeedSetting, { label: string; detail: string; icon: string }> = {
@@ -64,6 +78,16 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
   const [soundEnabled, setSoundEnabled] = useState(currentSettings.soundEnabled);
   const [hapticsEnabled, setHapticsEnabled] = useState(currentSettings.hapticsEnabled);
   const [reducedMotion, setReducedMotion] = useState(currentSettings.reducedMotion);
+  const [hintsEnabled, setHintsEnabled] = useState(currentSettings.hintsEnabled);
+  const [landingGhost, setLandingGhost] = useState(currentSettings.landingGhost);
+  const [colorPalette, setColorPalette] = useState(currentSettings.colorPalette);
+  const [colorSymbols, setColorSymbols] = useState(currentSettings.colorSymbols);
+  const [webNarration, setWebNarration] = useState(currentSettings.webNarration);
+  const [keyBindings, setKeyBindings] = useState(currentSettings.keyBindings);
+  const [keyRepeat, setKeyRepeat] = useState(currentSettings.keyRepeat);
+  // The action waiting for a key press, and what came of the last one
+  const [capturing, setCapturing] = useState<KeyAction | null>(null);
+  const [keyMessage, setKeyMessage] = useState<string | null>(null);
   const [hasSavedGame, setHasSavedGame] = useState(false);
   const [showClearDialog, setShowClearDialog] = useState(false);
   const [dataCleared, setDataCleared] = useState(false);
@@ -80,36 +104,139 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
     setHasSavedGame(exists);
   };
 
-  const handleSpeedChange = async (speed: SpeedSetting) => {
-    setSpeedSetting(speed);
-    const newSettings = { speedSetting: speed, soundEnabled, hapticsEnabled, reducedMotion };
+  // Persist the full settings object with one field changed
+  const commitSettings = async (change: Partial<GameSettings>) => {
+    const newSettings: GameSettings = {
+      speedSetting,
+      soundEnabled,
+      hapticsEnabled,
+      reducedMotion,
+      hintsEnabled,
+      landingGhost,
+      colorPalette,
+      colorSymbols,
+      webNarration,
+      keyBindings,
+      keyRepeat,
+      ...change,
+    };
     await Storage.saveSettings(newSettings);
     onSettingsChange(newSettings);
   };
 
+  const handleSpeedChange = async (speed: SpeedSetting) => {
+    setSpeedSetting(speed);
+    await commitSettings({ speedSetting: speed });
+  };
+
   const handleSoundToggle = async (value: boolean) => {
     setSoundEnabled(value);
     SoundManager.getInstance().setEnabled(value);
-    const newSettings = { speedSetting, soundEnabled: value, hapticsEnabled, reducedMotion };
-    await Storage.saveSettings(newSettings);
-    onSettingsChange(newSettings);
+    await commitSettings({ soundEnabled: value });
   };
 
   const handleHapticsToggle = async (value: boolean) => {
     setHapticsEnabled(value);
     SoundManager.getInstance().setHapticsEnabled(value);
-    const newSettings = { speedSetting, soundEnabled, hapticsEnabled: value, reducedMotion };
-    await Storage.saveSettings(newSettings);
-    onSettingsChange(newSettings);
+    await commitSettings({ hapticsEnabled: value });
   };
 
   const handleReducedMotionToggle = async (value: boolean) => {
     setReducedMotion(value);
-    const newSettings = { speedSetting, soundEnabled, hapticsEnabled, reducedMotion: value };
-    await Storage.saveSettings(newSettings);
-    onSettingsChange(newSettings);
+    await commitSettings({ reducedMotion: value });
   };
 
+  const handleHintsToggle = async (value: boolean) => {
+    setHintsEnabled(value);
+    await commitSettings({ hintsEnabled: value });
+  };
+
+  const handleLandingGhostToggle = async (value: boolean) => {
+    setLandingGhost(value);
+    await commitSettings({ landingGhost: value });
+  };
+
+  const handlePaletteChange = async (palette: PaletteName) => {
+    setColorPalette(palette);
+    await commitSettings({ colorPalette: palette });
+  };
+
+  const handleColorSymbolsToggle = async (value: boolean) => {
+    setColorSymbols(value);
+    await commitSettings({ colorSymbols: value });
+  };
+
+  const handleWebNarrationToggle = async (value: boolean) => {
+    setWebNarration(value);
+    await commitSettings({ webNarration: value });
+  };
+
+  // While an action is listening, the next key press is bound to it unless
+  // another action already has it; Escape cancels
+  useEffect(() => {
+    if (!capturing) return;
+    const handleKey = (event: KeyboardEvent) => {
+      event.preventDefault();
+      event.stopPropagation();
+      const key = normalizeKey(event.key);
+      setCapturing(null);
+      if (key === 'Escape') {
+        setKeyMessage(null);
+        return;
+      }
+      const owner = keyOwner(keyBindings, key, capturing);
+      if (owner) {
+        setKeyMessage(`${keyLabel(key)} is already bound to ${KEY_ACTION_LABELS[owner]}. Remove it there first.`);
+        return;
+      }
+      if (keyBindings[capturing].includes(key)) {
+        setKeyMessage(null);
+        return;
+      }
+      const next = { ...keyBindings, [capturing]: [...keyBindings[capturing], key] };
+      setKeyBindings(next);
+      setKeyMessage(`${keyLabel(key)} now does ${KEY_ACTION_LABELS[capturing]}`);
+      commitSettings({ keyBindings: next });
+    };
+    window.addEventListener('keydown', handleKey, true);
+    return () => window.removeEventListener('keydown', handleKey, true);
+  }, [capturing, keyBindings]);
+
+  const handleRemoveKey = async (action: KeyAction, key: string) => {
+    const next = { ...keyBindings, [action]: keyBindings[action].filter(k => k !== key) };
+    setKeyBindings(next);
+    setKeyMessage(null);
+    await commitSettings({ keyBindings: next });
+  };
+
+  const handleRepeatChange = async (action: KeyAction, timing: KeyRepeat | null) => {
+    const next = { ...keyRepeat, [action]: timing };
+    setKeyRepeat(next);
+    await commitSettings({ keyRepeat: next });
+  };
+
+  const handleResetKeys = async () => {
+    setKeyBindings(SINGLE_PLAYER_KEYS);
+    setKeyRepeat(DEFAULT_KEY_REPEAT);
+    setCapturing(null);
+    setKeyMessage('Keys reset to the defaults');
+    await commitSettings({ keyBindings: SINGLE_PLAYER_KEYS, keyRepeat: DEFAULT_KEY_REPEAT });
+  };
+
+  // name is what a screen reader says: the action as well as the setting
+  const stepper = (label: string, name: string, value: number, range: { min: number; max: number; step: number }, onChange: (value: number) => void) => (
+    <View style={styles.stepper}>
+      <Text style={styles.stepperLabel}>{label}</Text>
+      <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Shorter ${name}`} onPress={() => onChange(Math.max(range.min, value - range.step))} style={styles.stepperButton}>
+        <Text style={styles.stepperButtonText}>-</Text>
+      </TouchableOpacity>
+      <Text style={styles.stepperValue}>{value} ms</Text>
+      <TouchableOpacity accessibilityRole="button" accessibilityLabel={`Longer ${name}`} onPress={() => onChange(Math.min(range.max, value + range.step))} style={styles.stepperButton}>
+        <Text style={styles.stepperButtonText}>+</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
   const performClearData = async () => {
     await Storage.clearAllData();
     setHasSavedGame(false);
@@ -163,6 +290,20 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                 })}
               </View>
               <Text style={styles.helperText}>{speedLabels[speedSetting].detail}</Text>
+              <View style={[styles.settingRow, styles.settingRowSpaced]}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>Hints</Text>
+                  <Text style={styles.rowDetail}>Show the best landing spot, {HINTS_PER_LEVEL} per level. Each one trims the clear bonus</Text>
+                </View>
+                <Switch accessibilityLabel="Hints" value={hintsEnabled} onValueChange={handleHintsToggle} trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }} thumbColor={hintsEnabled ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'} />
+              </View>
+              <View style={[styles.settingRow, styles.settingRowSpaced]}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>Landing preview</Text>
+                  <Text style={styles.rowDetail}>Faint outline where the capsule you're steering will land</Text>
+                </View>
+                <Switch accessibilityLabel="Landing preview" value={landingGhost} onValueChange={handleLandingGhostToggle} trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }} thumbColor={landingGhost ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'} />
+              </View>
             </View>
 
             <View style={styles.section}>
@@ -198,17 +339,114 @@ export const SettingsScreen: React.FC<SettingsScreenProps> = ({
                 </View>
                 <Switch accessibilityLabel="Reduce motion" value={reducedMotion} onValueChange={handleReducedMotionToggle} trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }} thumbColor={reducedMotion ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'} />
               </View>
-              <View style={styles.settingRow}>
-                <View style={styles.rowText}>
-                  <Text style={styles.rowTitle}>Piece markings</Text>
-                  <Text style={styles.rowDetail}>Color pieces now include simple shape cues</Text>
+              {Platform.OS === 'web' && (
+                <View style={[styles.settingRow, styles.settingRowDivider]}>
+                  <View style={styles.rowText}>
+                    <Text style={styles.rowTitle}>Screen reader narration</Text>
+                    <Text style={styles.rowDetail}>Reads out capsules, landings and clears as you play</Text>
+                  </View>
+                  <Switch accessibilityLabel="Screen reader narration" value={webNarration} onValueChange={handleWebNarrationToggle} trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }} thumbColor={webNarration ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'} />
                 </View>
-                <View style={styles.statusPill}>
-                  <Text style={styles.statusPillText}>On</Text>
+              )}
+              <View style={[styles.settingRow, styles.settingRowDividerBelow]}>
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>Color symbols</Text>
+                  <Text style={styles.rowDetail}>Marks every capsule half and microbe with its color's shape</Text>
                 </View>
+                <Switch accessibilityLabel="Color symbols" value={colorSymbols} onValueChange={handleColorSymbolsToggle} trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }} thumbColor={colorSymbols ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'} />
+              </View>
+              <Text style={styles.rowTitle}>Color palette</Text>
+              <View style={[styles.segmentedControl, styles.paletteControl]}>
+                {(Object.keys(PALETTES) as PaletteName[]).map((name) => {
+                  const selected = colorPalette === name;
+                  const palette = PALETTES[name];
+                  return (
+                    <TouchableOpacity
+                      key={name}
+                      onPress={() => handlePaletteChange(name)}
+                      activeOpacity={0.84}
+                      style={[styles.paletteSegment, selected && styles.speedSegmentSelected]}
+                      accessibilityRole="button"
+                      accessibilityLabel={`${palette.label} color palette`}
+                      accessibilityState={{ selected }}
+                    >
+                      <View style={styles.paletteSwatches}>
+                        {Object.values(Color).map((color) => (
+                          <View key={color} style={[styles.paletteSwatch, { backgroundColor: palette.values[color] }]}>
+                            {colorSymbols && <Text style={styles.paletteSymbol}>{COLOR_SYMBOLS[color]}</Text>}
+                          </View>
+                        ))}
+                      </View>
+                      <Text style={[styles.speedLabel, selected && styles.speedLabelSelected]}>{palette.label}</Text>
+                    </TouchableOpacity>
+                  );
+                })}
               </View>
             </View>
 
+            {isWeb && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>Keyboard</Text>
+                {KEY_ACTIONS.map((action, index) => {
+                  const timing = keyRepeat[action];
+                  const label = KEY_ACTION_LABELS[action];
+                  return (
+                    <View key={action} style={[styles.keyRow, index > 0 && styles.keyRowDivider]}>
+                      <View style={styles.settingRow}>
+                        <Text style={[styles.rowTitle, styles.rowText]}>{label}</Text>
+                        <View style={styles.keyChips}>
+                          {keyBindings[action].length === 0 && <Text style={styles.rowDetail}>Unbound</Text>}
+                          {keyBindings[action].map(key => (
+                            <TouchableOpacity
+                              key={key}
+                              onPress={() => handleRemoveKey(action, key)}
+                              style={styles.keyChip}
+                              accessibilityRole="button"
+                              accessibilityLabel={`Remove ${keyLabel(key)} from ${label}`}
+                            >
+                              <Text style={styles.keyChipText}>{keyLabel(key)} ×</Text>
+                            </TouchableOpacity>
+                          ))}
+                          {keyBindings[action].length < MAX_KEYS_PER_ACTION && (
+                            <TouchableOpacity
+                              onPress={() => setCapturing(capturing === action ? null : action)}
+                              style={[styles.keyChip, styles.keyChipAdd, capturing === action && styles.keyChipListening]}
+                              accessibilityRole="button"
+                              accessibilityLabel={capturing === action ? `Press a key for ${label}` : `Add a key for ${label}`}
+                            >
+                              <Text style={styles.keyChipText}>{capturing === action ? 'Press a key' : '+'}</Text>
+                            </TouchableOpacity>
+                          )}
+                        </View>
+                      </View>
+                      {REPEATABLE_ACTIONS.includes(action) && (
+                        <View style={styles.repeatRow}>
+                          <Text style={styles.rowDetail}>Repeat when held</Text>
+                          <Switch
+                            accessibilityLabel={`Repeat ${label} when held`}
+                            value={timing !== null}
+                            onValueChange={value => handleRepeatChange(action, value ? DEFAULT_REPEAT_TIMING : null)}
+                            trackColor={{ false: 'rgba(255,255,255,0.18)', true: theme.colors.success }}
+                            thumbColor={timing ? theme.colors.surfaceLight : 'rgba(255,255,255,0.72)'}
+                          />
+                          {timing && stepper('Delay', `${label} repeat delay`, timing.das, DAS_RANGE, das => handleRepeatChange(action, { ...timing, das }))}
+                          {timing && stepper('Every', `${label} repeat interval`, timing.arr, ARR_RANGE, arr => handleRepeatChange(action, { ...timing, arr }))}
+                        </View>
+                      )}
+                    </View>
+                  );
+                })}
+                {keyMessage && (
+                  <Text style={styles.helperText} accessibilityLiveRegion="polite">
+                    {keyMessage}
+                  </Text>
+                )}
+                <TouchableOpacity onPress={handleResetKeys} style={styles.resetKeys} accessibilityRole="button" accessibilityLabel="Reset keys to defaults">
+                  <Text style={styles.resetKeysText}>Reset to defaults</Text>
+                </TouchableOpacity>
+              </View>
+            )}
+
             {hasSavedGame && (
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Saved game</Text>
@@ -375,6 +613,9 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     gap: responsiveSpacing(16),
   },
+  settingRowSpaced: {
+    marginTop: responsiveSpacing(16),
+  },
   settingRowDivider: {
     marginVertical: responsiveSpacing(12),
     paddingVertical: responsiveSpacing(12),
@@ -397,19 +638,125 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     lineHeight: responsiveFontSize(18),
   },
-  statusPill: {
-    paddingHorizontal: responsiveSpacing(12),
-    paddingVertical: responsiveSpacing(7),
-    borderRadius: theme.borderRadius.round,
-    backgroundColor: 'rgba(88,214,183,0.16)',
+  settingRowDividerBelow: {
+    marginBottom: responsiveSpacing(12),
+    paddingBottom: responsiveSpacing(12),
+    borderBottomWidth: 1,
+    borderColor: 'rgba(255,255,255,0.07)',
+  },
+  paletteControl: {
+    flexWrap: 'wrap',
+    marginTop: responsiveSpacing(8),
+  },
+  paletteSegment: {
+    flexBasis: '45%',
+    flexGrow: 1,
+    minHeight: 64,
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: theme.borderRadius.md,
+    gap: 6,
+  },
+  paletteSwatches: {
+    flexDirection: 'row',
+    gap: 3,
+  },
+  paletteSwatch: {
+    width: 16,
+    height: 16,
+    borderRadius: 8,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  paletteSymbol: {
+    color: 'rgba(20,26,40,0.72)',
+    fontSize: 9,
+    fontWeight: '900',
+  },
+  keyRow: {
+    paddingVertical: responsiveSpacing(10),
+  },
+  keyRowDivider: {
+    borderTopWidth: 1,
+    borderColor: 'rgba(255,255,255,0.07)',
+  },
+  keyChips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    gap: responsiveSpacing(6),
+  },
+  keyChip: {
+    minWidth: 36,
+    paddingHorizontal: responsiveSpacing(10),
+    paddingVertical: responsiveSpacing(6),
+    borderRadius: theme.borderRadius.md,
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.1)',
     borderWidth: 1,
-    borderColor: 'rgba(88,214,183,0.34)',
+    borderColor: 'rgba(255,255,255,0.16)',
+  },
+  keyChipAdd: {
+    borderStyle: 'dashed',
+    backgroundColor: 'transparent',
   },
-  statusPillText: {
+  keyChipListening: {
+    borderStyle: 'solid',
+    borderColor: theme.colors.success,
+  },
+  keyChipText: {
+    color: theme.colors.text.primary,
+    fontSize: responsiveFontSize(12),
+    fontWeight: '900',
+  },
+  repeatRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: responsiveSpacing(10),
+    marginTop: responsiveSpacing(8),
+  },
+  stepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: responsiveSpacing(6),
+  },
+  stepperLabel: {
+    color: theme.colors.text.secondary,
+    fontSize: responsiveFontSize(12),
+    fontWeight: '800',
+  },
+  stepperButton: {
+    width: 28,
+    height: 28,
+    borderRadius: 14,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255,255,255,0.1)',
+  },
+  stepperButtonText: {
+    color: theme.colors.text.primary,
+    fontSize: responsiveFontSize(15),
+    fontWeight: '900',
+  },
+  stepperValue: {
+    minWidth: 52,
+    textAlign: 'center',
     color: theme.colors.text.primary,
     fontSize: responsiveFontSize(12),
     fontWeight: '900',
   },
+  resetKeys: {
+    alignSelf: 'flex-start',
+    marginTop: responsiveSpacing(12),
+    paddingVertical: responsiveSpacing(8),
+  },
+  resetKeysText: {
+    color: theme.colors.mint,
+    fontSize: responsiveFontSize(14),
+    fontWeight: '900',
+  },
   clearRow: {
     minHeight: 48,
     flexDirection: 'row',
@@ -0,0 +1,354 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Platform, SafeAreaView, StyleSheet, Text, TextInput, TouchableOpacity, View } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
+import { GameBoard } from '../components/GameBoard';
+import { useGamepadControls, useKeyboardControls } from '../components/GameControls';
+import { PlayerIndex, VersusMatch, VersusOutcome } from '../game/versus/VersusMatch';
+import { NetSessionStatus, NetVersusSession } from '../game/versus/NetVersusSession';
+import { WebSocketTransport } from '../game/versus/Transport';
+import { GameEngine } from '../game/GameEngine';
+import { BOARD_HEIGHT, BOARD_WIDTH, GameState } from '../game/utils/constants';
+import { GameStats, SpeedSetting } from '../game/utils/types';
+import { SoundManager } from '../utils/SoundManager';
+import { ColorStyle, DEFAULT_COLOR_STYLE, PALETTES } from '../utils/palette';
+import { DEFAULT_KEY_REPEAT, KeyBindings, KeyRepeatSettings, NO_KEYS, PLAYER_ONE_KEYS, PLAYER_TWO_KEYS, SINGLE_PLAYER_KEYS } from '../utils/keyBindings';
+import { theme, responsiveFontSize, responsiveSpacing } from '../utils/theme';
+
+const isWeb = Platform.OS === 'web';
+const MAX_LEVEL = 20;
+const LOCAL_NAMES: [string, string] = ['Player 1', 'Player 2'];
+const PLAYER_KEYS_HELP = ['WASD, E drops', 'Arrows, Enter drops'] as const;
+const DEFAULT_RELAY = 'ws://localhost:8787';
+
+interface VersusScreenProps {
+  speedSetting: SpeedSetting;
+  reducedMotion: boolean;
+  landingGhost: boolean;
+  colorStyle?: ColorStyle;
+  // The player's own keys, used online where each device has one player
+  keyBindings?: KeyBindings;
+  keyRepeat?: KeyRepeatSettings;
+  onBackToMenu: () => void;
+}
+
+// Cell size that fits a whole board (plus its frame) inside a measured box
+const cellSizeForBox = (w: number, h: number): number => {
+  const pitch = Math.floor(Math.min((w - 44) / BOARD_WIDTH, (h - 44) / BOARD_HEIGHT));
+  return Math.max(10, Math.min(40, pitch - 2));
+};
+
+const outcomeText = (outcome: VersusOutcome, names: [string, string]): { title: string; detail: string } => {
+  if (outcome.winner === null) {
+    return { title: 'Draw', detail: outcome.reason === 'topOut' ? 'Both trays filled up at once' : 'Both trays cleared at once' };
+  }
+  const winner = names[outcome.winner];
+  const loser = names[outcome.winner === 0 ? 1 : 0];
+  return {
+    title: winner === 'You' ? 'You win' : `${winner} wins`,
+    detail: outcome.reason === 'topOut' ? `${loser} topped out` : 'Every microbe cleared first',
+  };
+};
+
+const netStatusText = (status: NetSessionStatus | null, room: string): string | null => {
+  if (!status) return null;
+  switch (status.phase) {
+    case 'connecting':
+      return 'Connecting to the relay...';
+    case 'waiting':
+      return `Waiting for an opponent in "${room}"`;
+    case 'playing':
+      return null;
+    case 'ended':
+      return status.reason;
+  }
+};
+
+const PlayerPanel: React.FC<{
+  engine: GameEngine;
+  name: string;
+  keysHelp?: string;
+  stats: GameStats | null;
+  interactive: boolean;
+  reducedMotion: boolean;
+  landingGhost: boolean;
+  colorStyle: ColorStyle;
+}> = ({ engine, name, keysHelp, stats, interactive, reducedMotion, landingGhost, colorStyle }) => {
+  const [box, setBox] = useState<{ w: number; h: number } | null>(null);
+  const colors = PALETTES[colorStyle.palette].values;
+  const garbage = engine.getPendingGarbage();
+  const nextColors = engine.getNextPill()?.colors ?? [];
+
+  return (
+    <View style={styles.panel}>
+      <View style={styles.panelHeader}>
+        <View>
+          <Text style={styles.playerName}>{name}</Text>
+          {isWeb && keysHelp && <Text style={styles.hudLabel}>{keysHelp}</Text>}
+        </View>
+        <View style={styles.nextCapsule}>
+          {nextColors.map((color, i) => <View key={i} style={[styles.nextHalf, { backgroundColor: colors[color] }]} />)}
+        </View>
+      </View>
+      <View style={styles.panelStats}>
+        <Text style={styles.hudLabel}>{stats?.virusCount ?? 0} microbes</Text>
+        <Text style={styles.hudLabel}>{(stats?.score ?? 0).toLocaleString()}</Text>
+      </View>
+      <View style={styles.garbageRow} accessibilityLabel={`${garbage.length} garbage halves incoming`}>
+        {garbage.map((color, i) => <View key={i} style={[styles.garbageHalf, { backgroundColor: colors[color] }]} />)}
+      </View>
+      <View style={styles.boardArea} onLayout={e => setBox({ w: e.nativeEvent.layout.width, h: e.nativeEvent.layout.height })}>
+        {box && (
+          <GameBoard
+            gameEngine={engine}
+            cellSize={cellSizeForBox(box.w, box.h)}
+            interactive={interactive}
+            reducedMotion={reducedMotion}
+            showLandingGhost={landingGhost}
+            colorStyle={colorStyle}
+          />
+        )}
+      </View>
+    </View>
+  );
+};
+
+// Two boards side by side. On one device: one player per half of the
+// screen on touch, or WASD against the arrows on a shared keyboard.
+// Online: your board on your device, the opponent's mirrored next to it,
+// through a relay (npm run relay starts one on localhost).
+export const VersusScreen: React.FC<VersusScreenProps> = ({
+  speedSetting,
+  reducedMotion,
+  landingGhost,
+  colorStyle = DEFAULT_COLOR_STYLE,
+  keyBindings = SINGLE_PLAYER_KEYS,
+  keyRepeat = DEFAULT_KEY_REPEAT,
+  onBackToMenu,
+}) => {
+  const matchRef = useRef<VersusMatch | null>(null);
+  if (!matchRef.current) {
+    const soundManager = SoundManager.getInstance();
+    soundManager.initialize();
+    matchRef.current = new VersusMatch([soundManager, soundManager]);
+  }
+  const localMatch = matchRef.current;
+
+  const [level, setLevel] = useState(5);
+  const [online, setOnline] = useState(false);
+  const [relayUrl, setRelayUrl] = useState(DEFAULT_RELAY);
+  const [room, setRoom] = useState('pill-panic');
+  const [session, setSession] = useState<NetVersusSession | null>(null);
+  const [netStatus, setNetStatus] = useState<NetSessionStatus | null>(null);
+  const [started, setStarted] = useState(false);
+  const [paused, setPaused] = useState(false);
+  const [outcome, setOutcome] = useState<VersusOutcome | null>(null);
+  const [stats, setStats] = useState<[GameStats | null, GameStats | null]>([null, null]);
+
+  const match: VersusMatch = session ? session.match : localMatch;
+  const you = netStatus?.phase === 'playing' ? netStatus.player : null;
+  const names: [string, string] = you === null ? LOCAL_NAMES : you === 0 ? ['You', 'Opponent'] : ['Opponent', 'You'];
+
+  // Online there's one player per device: their usual keys, minus pause
+  const onlineKeys = useMemo<KeyBindings>(() => ({ ...keyBindings, pause: [] }), [keyBindings]);
+  useKeyboardControls(match.engines[0], session ? (you === 0 ? onlineKeys : NO_KEYS) : PLAYER_ONE_KEYS, keyRepeat);
+  useKeyboardControls(match.engines[1], session ? (you === 1 ? onlineKeys : NO_KEYS) : PLAYER_TWO_KEYS, keyRepeat);
+  // Controllers: on one screen the first pad plays the left board and the
+  // second the right; online any pad plays your board. Start pauses both.
+  useGamepadControls(match.engines[0], keyRepeat, session ? (you === 0 ? 'any' : null) : 0, () => handlePause());
+  useGamepadControls(match.engines[1], keyRepeat, session ? (you === 1 ? 'any' : null) : 1, () => handlePause());
+
+  useEffect(() => {
+    const unsubscribe = match.engines.map((engine, i) =>
+      engine.events.on('statsChanged', ({ stats: next }) =>
+        setStats(prev => (i === 0 ? [next, prev[1]] : [prev[0], next]))
+      )
+    );
+    return () => unsubscribe.forEach(off => off());
+  }, [match]);
+
+  // Leaving the screen leaves the room
+  useEffect(() => () => session?.close(), [session]);
+
+  // One clock for both boards; stops once the match is decided. Online,
+  // the session decides how many fixed steps that clock allows.
+  useEffect(() => {
+    if (!started) return;
+    const driver = session ?? localMatch;
+    let frame: number | null = null;
+    let last = 0;
+    const loop = (timestamp: number) => {
+      const running = match.engines.every(engine => engine.getGameState() !== GameState.PAUSED);
+      if (last > 0 && running) driver.update(timestamp - last);
+      last = timestamp;
+      const result = match.getOutcome();
+      if (result) {
+        setOutcome(result);
+        return;
+      }
+      frame = requestAnimationFrame(loop);
+    };
+    frame = requestAnimationFrame(loop);
+    return () => {
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [started, session, localMatch, match]);
+
+  const handleStart = () => {
+    SoundManager.getInstance().playButton();
+    localMatch.start(level, speedSetting);
+    setOutcome(null);
+    setPaused(false);
+    // Restart the clock effect even when rematching
+    setStarted(false);
+    requestAnimationFrame(() => setStarted(true));
+  };
+
+  const handleConnect = () => {
+    SoundManager.getInstance().playButton();
+    const soundManager = SoundManager.getInstance();
+    const next = new NetVersusSession(
+      new WebSocketTransport(relayUrl.trim()),
+      room.trim(),
+      { level, speedSetting },
+      [soundManager, soundManager],
+      status => {
+        setNetStatus(status);
+        if (status.phase === 'playing') setStarted(true);
+      }
+    );
+    setOutcome(null);
+    setStarted(false);
+    setNetStatus(next.getStatus());
+    setSession(next);
+  };
+
+  // Back to the setup card; the old session closes with its effect
+  const handleLeaveOnline = () => {
+    setSession(null);
+    setNetStatus(null);
+    setStarted(false);
+    setOutcome(null);
+  };
+
+  const handlePause = () => {
+    if (!started || outcome || session) return;
+    if (paused) localMatch.resume();
+    else localMatch.pause();
+    setPaused(!paused);
+  };
+
+  // P or Escape pauses both boards (neither player's keys include it)
+  useEffect(() => {
+    if (!isWeb) return;
+    const onKey = (event: KeyboardEvent) => {
+      if (event.key === 'p' || event.key === 'P' || event.key === 'Escape') handlePause();
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  });
+
+  const result = outcome && outcomeText(outcome, names);
+  const statusText = netStatusText(netStatus, room.trim());
+  const showCard = !started || paused || result || netStatus?.phase === 'ended';
+
+  return (
+    <GestureHandlerRootView style={styles.container}>
+      <LinearGradient colors={[theme.colors.background, theme.colors.backgroundLight]} style={styles.container}>
+        <SafeAreaView style={styles.container}>
+          <View style={styles.header}>
+            <TouchableOpacity accessibilityRole="button" accessibilityLabel="Back to menu" onPress={onBackToMenu} style={styles.iconButton}><Text style={styles.iconText}>{'<'}</Text></TouchableOpacity>
+            <View style={styles.headerTitle}><Text style={styles.kicker}>{session ? 'Online versus' : 'Versus'}</Text><Text style={styles.title}>Level {session && started ? match.engines[0].getStats().level : level}</Text></View>
+            {session ? <View style={styles.iconSpacer} /> : <TouchableOpacity accessibilityRole="button" accessibilityLabel={paused ? 'Resume match' : 'Pause match'} onPress={handlePause} style={styles.iconButton}><Text style={styles.iconText}>{paused ? '>' : '||'}</Text></TouchableOpacity>}
+          </View>
+
+          <View style={styles.arena}>
+            {([0, 1] as PlayerIndex[]).map(player => (
+              <PlayerPanel
+                key={player}
+                engine={match.engines[player]}
+                name={names[player]}
+                keysHelp={session ? undefined : PLAYER_KEYS_HELP[player]}
+                stats={stats[player]}
+                interactive={!session || you === player}
+                reducedMotion={reducedMotion}
+                landingGhost={landingGhost}
+                colorStyle={colorStyle}
+              />
+            ))}
+          </View>
+
+          {showCard && (
+            <View style={styles.overlay}>
+              <View style={styles.card} accessibilityLiveRegion="polite">
+                {result ? (
+                  <><Text style={styles.cardTitle}>{result.title}</Text><Text style={styles.cardDetail}>{result.detail}</Text></>
+                ) : paused ? (
+                  <Text style={styles.cardTitle}>Paused</Text>
+                ) : (
+                  <><Text style={styles.cardTitle}>Head to head</Text><Text style={styles.cardDetail}>Chains of two or more drop garbage on the other tray. Fill yours to the top and you lose.</Text></>
+                )}
+                {!session && !paused && !result && (
+                  <View style={styles.modeRow}>
+                    {[false, true].map(value => (
+                      <TouchableOpacity key={String(value)} accessibilityRole="button" accessibilityState={{ selected: online === value }} onPress={() => setOnline(value)} style={[styles.chip, online === value && styles.chipSelected]}><Text style={styles.chipText}>{value ? 'Online' : 'Same screen'}</Text></TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                {!session && !paused && (
+                  <View style={styles.levelRow}>
+                    <TouchableOpacity accessibilityRole="button" accessibilityLabel="Fewer microbes" onPress={() => setLevel(Math.max(1, level - 1))} style={styles.iconButton}><Text style={styles.iconText}>-</Text></TouchableOpacity>
+                    <Text style={styles.levelValue}>Level {level}</Text>
+                    <TouchableOpacity accessibilityRole="button" accessibilityLabel="More microbes" onPress={() => setLevel(Math.min(MAX_LEVEL, level + 1))} style={styles.iconButton}><Text style={styles.iconText}>+</Text></TouchableOpacity>
+                  </View>
+                )}
+                {online && !session && !result && (
+                  <>
+                    <TextInput value={relayUrl} onChangeText={setRelayUrl} placeholder={DEFAULT_RELAY} placeholderTextColor={theme.colors.text.secondary} style={styles.input} accessibilityLabel="Relay address" autoCapitalize="none" autoCorrect={false} />
+                    <TextInput value={room} onChangeText={setRoom} placeholder="Room name" placeholderTextColor={theme.colors.text.secondary} style={styles.input} accessibilityLabel="Room name" autoCapitalize="none" autoCorrect={false} maxLength={32} />
+                    <Text style={styles.hudLabel}>Whoever joins the room first picks the level</Text>
+                  </>
+                )}
+                {statusText && <Text style={styles.cardDetail}>{statusText}</Text>}
+                {paused ? (
+                  <TouchableOpacity accessibilityRole="button" accessibilityLabel="Resume match" onPress={handlePause} style={styles.primary}><Text style={styles.primaryText}>Resume</Text></TouchableOpacity>
+                ) : session ? (
+                  (result || netStatus?.phase === 'ended') && <TouchableOpacity accessibilityRole="button" accessibilityLabel="New online match" onPress={handleLeaveOnline} style={styles.primary}><Text style={styles.primaryText}>New match</Text></TouchableOpacity>
+                ) : online ? (
+                  <TouchableOpacity accessibilityRole="button" accessibilityLabel="Join room" onPress={handleConnect} disabled={!room.trim() || !relayUrl.trim()} style={styles.primary}><Text style={styles.primaryText}>Join room</Text></TouchableOpacity>
+                ) : (
+                  <TouchableOpacity accessibilityRole="button" accessibilityLabel={result ? 'Rematch' : 'Start match'} onPress={handleStart} style={styles.primary}><Text style={styles.primaryText}>{result ? 'Rematch' : 'Start'}</Text></TouchableOpacity>
+                )}
+                {session && !result && netStatus?.phase !== 'ended' && <TouchableOpacity accessibilityRole="button" accessibilityLabel="Leave room" onPress={handleLeaveOnline} style={styles.secondary}><Text style={styles.secondaryText}>Leave room</Text></TouchableOpacity>}
+                <TouchableOpacity accessibilityRole="button" accessibilityLabel="Back to menu" onPress={onBackToMenu} style={styles.secondary}><Text style={styles.secondaryText}>Menu</Text></TouchableOpacity>
+              </View>
+            </View>
+          )}
+        </SafeAreaView>
+      </LinearGradient>
+    </GestureHandlerRootView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: { flex: 1 },
+  header: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: responsiveSpacing(16), paddingVertical: responsiveSpacing(10) },
+  headerTitle: { alignItems: 'center' }, kicker: { color: theme.colors.mint, fontSize: responsiveFontSize(12), fontWeight: '900' }, title: { color: theme.colors.text.primary, fontSize: responsiveFontSize(20), fontWeight: '900' },
+  iconButton: { width: 46, height: 46, borderRadius: 16, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, iconText: { color: theme.colors.text.primary, fontSize: 22, fontWeight: '900' }, iconSpacer: { width: 46 },
+  arena: { flex: 1, flexDirection: 'row', gap: responsiveSpacing(8), paddingHorizontal: responsiveSpacing(8), paddingBottom: responsiveSpacing(8), width: '100%', maxWidth: 1100, alignSelf: 'center' },
+  panel: { flex: 1, gap: 4 },
+  panelHeader: { flexDirection: 'row', alignItems: 'center', justifyContent: 'space-between', paddingHorizontal: responsiveSpacing(8) },
+  panelStats: { flexDirection: 'row', justifyContent: 'space-between', paddingHorizontal: responsiveSpacing(8) },
+  playerName: { color: theme.colors.text.primary, fontSize: responsiveFontSize(16), fontWeight: '900' }, hudLabel: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(11), fontWeight: '800' },
+  nextCapsule: { flexDirection: 'row', borderRadius: theme.borderRadius.round, overflow: 'hidden', borderWidth: 1, borderColor: 'rgba(255,255,255,0.3)' }, nextHalf: { width: 14, height: 14 },
+  garbageRow: { flexDirection: 'row', gap: 3, height: 10, paddingHorizontal: responsiveSpacing(8) }, garbageHalf: { width: 10, height: 10, borderRadius: 5 },
+  boardArea: { flex: 1, alignItems: 'center', justifyContent: 'center' },
+  overlay: { ...StyleSheet.absoluteFillObject, alignItems: 'center', justifyContent: 'center', backgroundColor: 'rgba(8,12,24,0.72)' },
+  card: { width: '86%', maxWidth: 380, borderRadius: theme.borderRadius.xl, padding: responsiveSpacing(22), gap: responsiveSpacing(12), backgroundColor: theme.colors.backgroundLight, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)', alignItems: 'center' },
+  cardTitle: { color: theme.colors.text.primary, fontSize: responsiveFontSize(26), fontWeight: '900' }, cardDetail: { color: theme.colors.text.secondary, fontSize: responsiveFontSize(14), fontWeight: '700', textAlign: 'center' },
+  modeRow: { flexDirection: 'row', gap: responsiveSpacing(8) }, chip: { minHeight: 36, paddingHorizontal: responsiveSpacing(14), justifyContent: 'center', borderRadius: theme.borderRadius.round, backgroundColor: theme.colors.surfaceGlass, borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' }, chipSelected: { backgroundColor: 'rgba(88,214,183,0.15)', borderColor: 'rgba(88,214,183,0.5)' }, chipText: { color: theme.colors.text.primary, fontSize: responsiveFontSize(12), fontWeight: '800' },
+  input: { alignSelf: 'stretch', minHeight: 46, borderRadius: theme.borderRadius.lg, paddingHorizontal: responsiveSpacing(14), color: theme.colors.text.primary, fontSize: responsiveFontSize(14), fontWeight: '700', backgroundColor: 'rgba(255,255,255,0.08)', borderWidth: 1, borderColor: 'rgba(255,255,255,0.12)' },
+  levelRow: { flexDirection: 'row', alignItems: 'center', gap: responsiveSpacing(14) }, levelValue: { color: theme.colors.text.primary, fontSize: responsiveFontSize(16), fontWeight: '900', minWidth: 80, textAlign: 'center' },
+  primary: { alignSelf: 'stretch', minHeight: 50, borderRadius: theme.borderRadius.round, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.mint }, primaryText: { color: theme.colors.background, fontSize: responsiveFontSize(16), fontWeight: '900' },
+  secondary: { alignSelf: 'stretch', minHeight: 46, borderRadius: theme.borderRadius.round, alignItems: 'center', justifyContent: 'center', backgroundColor: theme.colors.surfaceGlass }, secondaryText: { color: theme.colors.text.primary, fontSize: responsiveFontSize(14), fontWeight: '800' },
+});
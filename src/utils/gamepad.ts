@@ -0,0 +1,51 @@
+import { KeyAction } from './keyBindings';
+
+// Button indices in the Gamepad API's "standard" mapping, which browsers
+// use for Xbox and PlayStation pads
+const BUTTON = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LB: 4,
+  RB: 5,
+  START: 9,
+  UP: 12,
+  DOWN: 13,
+  LEFT: 14,
+  RIGHT: 15,
+} as const;
+
+// Face buttons turn, the D-pad moves and drops, bumpers switch capsule
+export const GAMEPAD_BUTTONS: Record<KeyAction, number[]> = {
+  left: [BUTTON.LEFT],
+  right: [BUTTON.RIGHT],
+  rotate: [BUTTON.A],
+  rotateCcw: [BUTTON.B],
+  softDrop: [BUTTON.DOWN],
+  drop: [BUTTON.UP, BUTTON.Y],
+  switch: [BUTTON.X, BUTTON.LB, BUTTON.RB],
+  pause: [BUTTON.START],
+};
+
+// Stick travel (0..1) ignored around the center, so a worn stick that
+// rests a little off-center doesn't drift the capsule
+export const STICK_DEADZONE = 0.35;
+
+// Actions held on one pad: its buttons plus the left stick, which moves
+// and soft drops like the D-pad. Pushing the stick up does nothing, so a
+// hard drop is never set off by a sloppy diagonal.
+export const heldGamepadActions = (pad: Gamepad, deadzone: number = STICK_DEADZONE): Set<KeyAction> => {
+  const held = new Set<KeyAction>();
+  (Object.keys(GAMEPAD_BUTTONS) as KeyAction[]).forEach(action => {
+    if (GAMEPAD_BUTTONS[action].some(index => pad.buttons[index]?.pressed)) held.add(action);
+  });
+  const [x = 0, y = 0] = pad.axes;
+  // The stick leans mostly one way; read only that axis so a diagonal
+  // doesn't move and soft drop at once
+  if (Math.max(Math.abs(x), Math.abs(y)) > deadzone) {
+    if (Math.abs(x) >= Math.abs(y)) held.add(x < 0 ? 'left' : 'right');
+    else if (y > 0) held.add('softDrop');
+  }
+  return held;
+};
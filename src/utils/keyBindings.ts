@@ -0,0 +1,156 @@
+// Keyboard actions and the keys bound to them. Lives outside GameControls so
+// settings and storage can use it without pulling in the input hook.
+
+export type KeyAction = 'left' | 'right' | 'rotate' | 'rotateCcw' | 'softDrop' | 'drop' | 'switch' | 'pause';
+
+// Keys for each action, as KeyboardEvent.key values (letters lowercase)
+export type KeyBindings = Record<KeyAction, string[]>;
+
+// Auto-repeat while a key is held: the first repeat comes das ms after the
+// press (delayed auto shift), then one every arr ms (auto repeat rate).
+// null fires once per press. Soft drop is held rather than repeated, so it
+// never takes timing.
+export interface KeyRepeat {
+  das: number;
+  arr: number;
+}
+
+export type KeyRepeatSettings = Record<KeyAction, KeyRepeat | null>;
+
+// In settings order
+export const KEY_ACTIONS: KeyAction[] = ['left', 'right', 'rotate', 'rotateCcw', 'softDrop', 'drop', 'switch', 'pause'];
+
+export const KEY_ACTION_LABELS: Record<KeyAction, string> = {
+  left: 'Move left',
+  right: 'Move right',
+  rotate: 'Rotate',
+  rotateCcw: 'Rotate back',
+  softDrop: 'Soft drop',
+  drop: 'Hard drop',
+  switch: 'Switch capsule',
+  pause: 'Pause',
+};
+
+// Actions whose timing settings can change; the rest fire once per press
+export const REPEATABLE_ACTIONS: KeyAction[] = ['left', 'right', 'rotate', 'rotateCcw'];
+
+// One player: arrows and WASD both work
+export const SINGLE_PLAYER_KEYS: KeyBindings = {
+  left: ['ArrowLeft', 'a'],
+  right: ['ArrowRight', 'd'],
+  rotate: ['ArrowUp', 'w', ' '],
+  rotateCcw: ['z'],
+  softDrop: ['ArrowDown', 's'],
+  drop: ['Enter'],
+  switch: ['Tab'],
+  pause: ['p'],
+};
+
+// Two players sharing a keyboard: left hand on WASD, right hand on the
+// arrows. Pause belongs to the versus screen, not to either player.
+export const PLAYER_ONE_KEYS: KeyBindings = {
+  left: ['a'],
+  right: ['d'],
+  rotate: ['w'],
+  rotateCcw: [],
+  softDrop: ['s'],
+  drop: ['e'],
+  switch: ['q'],
+  pause: [],
+};
+
+export const PLAYER_TWO_KEYS: KeyBindings = {
+  left: ['ArrowLeft'],
+  right: ['ArrowRight'],
+  rotate: ['ArrowUp'],
+  rotateCcw: [],
+  softDrop: ['ArrowDown'],
+  drop: ['Enter'],
+  switch: ['/'],
+  pause: [],
+};
+
+export const NO_KEYS: KeyBindings = {
+  left: [],
+  right: [],
+  rotate: [],
+  rotateCcw: [],
+  softDrop: [],
+  drop: [],
+  switch: [],
+  pause: [],
+};
+
+// The old fixed 100 ms cooldown's pace, after a short pause so a tap moves
+// exactly one column
+export const DEFAULT_REPEAT_TIMING: KeyRepeat = { das: 170, arr: 100 };
+
+// Sideways moves repeat; everything else is once per press
+export const DEFAULT_KEY_REPEAT: KeyRepeatSettings = {
+  left: DEFAULT_REPEAT_TIMING,
+  right: DEFAULT_REPEAT_TIMING,
+  rotate: null,
+  rotateCcw: null,
+  softDrop: null,
+  drop: null,
+  switch: null,
+  pause: null,
+};
+
+export const normalizeKey = (key: string): string => (key.length === 1 ? key.toLowerCase() : key);
+
+// How a key reads in settings
+export const keyLabel = (key: string): string => {
+  if (key === ' ') return 'Space';
+  if (key.startsWith('Arrow')) return key.slice(5);
+  return key.length === 1 ? key.toUpperCase() : key;
+};
+
+// Keys bound to more than one action, with the actions sharing each
+export const findKeyConflicts = (bindings: KeyBindings): { key: string; actions: KeyAction[] }[] => {
+  const owners = new Map<string, KeyAction[]>();
+  for (const action of KEY_ACTIONS) {
+    for (const key of bindings[action]) {
+      owners.set(key, [...(owners.get(key) ?? []), action]);
+    }
+  }
+  return [...owners.entries()].filter(([, actions]) => actions.length > 1).map(([key, actions]) => ({ key, actions }));
+};
+
+// The action a key already belongs to, other than the one being edited
+export const keyOwner = (bindings: KeyBindings, key: string, except?: KeyAction): KeyAction | null =>
+  KEY_ACTIONS.find(action => action !== except && bindings[action].includes(key)) ?? null;
+
+// Saved bindings over the defaults, action by action. A save that lost an
+// action (older versions had no rotateCcw) gets that action's default keys,
+// unless they now belong to something else; a save with conflicts is
+// ignored altogether.
+export const restoreKeyBindings = (saved: unknown): KeyBindings => {
+  if (typeof saved !== 'object' || saved === null) return SINGLE_PLAYER_KEYS;
+  const record = saved as Partial<Record<KeyAction, unknown>>;
+  const bindings = { ...NO_KEYS };
+  const missing: KeyAction[] = [];
+  for (const action of KEY_ACTIONS) {
+    const keys = record[action];
+    if (Array.isArray(keys) && keys.every(key => typeof key === 'string')) bindings[action] = keys;
+    else missing.push(action);
+  }
+  for (const action of missing) {
+    bindings[action] = SINGLE_PLAYER_KEYS[action].filter(key => !keyOwner(bindings, key, action));
+  }
+  return findKeyConflicts(bindings).length === 0 ? bindings : SINGLE_PLAYER_KEYS;
+};
+
+export const restoreKeyRepeat = (saved: unknown): KeyRepeatSettings => {
+  if (typeof saved !== 'object' || saved === null) return DEFAULT_KEY_REPEAT;
+  const record = saved as Partial<Record<KeyAction, unknown>>;
+  const repeat = { ...DEFAULT_KEY_REPEAT };
+  for (const action of REPEATABLE_ACTIONS) {
+    const timing = record[action] as Partial<KeyRepeat> | null | undefined;
+    if (timing === null) repeat[action] = null;
+    else if (timing && Number.isFinite(timing.das) && Number.isFinite(timing.arr)) {
+      repeat[action] = { das: timing.das!, arr: timing.arr! };
+    }
+  }
+  return repeat;
+};
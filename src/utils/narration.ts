@@ -0,0 +1,79 @@
+import { CellType, Color } from '../game/utils/constants';
+import { GameBoard, EngineEvent } from '../game/utils/types';
+
+// Spoken text for screen reader players. Columns are counted from 1 on the
+// left, as a player would say them; everything else is plain words, since
+// VoiceOver and TalkBack read symbols unevenly.
+
+const COLOR_NAMES: Record<Color, string> = {
+  [Color.RED]: 'red',
+  [Color.BLUE]: 'blue',
+  [Color.YELLOW]: 'yellow',
+  [Color.GREEN]: 'green',
+  [Color.PURPLE]: 'purple',
+};
+
+export const colorName = (color: Color): string => COLOR_NAMES[color];
+
+const capsuleName = ([first, second]: readonly Color[]): string =>
+  first === second ? `${colorName(first)} capsule` : `${colorName(first)} ${colorName(second)} capsule`;
+
+// "4" or "4 and 5"
+const columnsText = (columns: number[]): string => {
+  const unique = [...new Set(columns)].sort((a, b) => a - b).map(x => x + 1);
+  return unique.length === 1 ? `column ${unique[0]}` : `columns ${unique.join(' and ')}`;
+};
+
+// One column top to bottom, runs of the same thing merged: "Column 3, top
+// to bottom: 9 empty, red germ, 2 blue capsule halves". Empty rows below
+// the first piece are read too, since a gap there is somewhere to drop into.
+export const describeColumn = (board: GameBoard, x: number): string => {
+  const runs: { type: CellType; color: Color | null; count: number }[] = [];
+  for (let y = 0; y < board.height; y++) {
+    const { type, color } = board.cells[y][x];
+    const last = runs[runs.length - 1];
+    if (last && last.type === type && last.color === color) last.count++;
+    else runs.push({ type, color, count: 1 });
+  }
+  if (runs.length === 1 && runs[0].type === CellType.EMPTY) return `Column ${x + 1}: empty`;
+  const parts = runs.map(({ type, color, count }) => {
+    if (type === CellType.EMPTY || !color) return `${count} empty`;
+    const noun = type === CellType.VIRUS ? (count === 1 ? 'germ' : 'germs') : count === 1 ? 'capsule half' : 'capsule halves';
+    return count === 1 ? `${colorName(color)} ${noun}` : `${count} ${colorName(color)} ${noun}`;
+  });
+  return `Column ${x + 1}, top to bottom: ${parts.join(', ')}`;
+};
+
+// What a screen reader should say about an engine event, or null for events
+// too frequent or minor to be worth interrupting for
+export const describeEvent = (event: EngineEvent): string | null => {
+  switch (event.type) {
+    case 'capsuleSpawned':
+      return `${capsuleName(event.colors)} entering at column ${event.column + 1}`;
+    case 'pieceLocked': {
+      // Debris and garbage fall in bursts; the match that follows says enough
+      if (!event.capsule) return null;
+      const columns = event.cells.map(cell => cell.x);
+      const colors = event.cells.map(cell => cell.color);
+      return columns[0] === columns[1]
+        ? `${capsuleName(colors)} landed upright in ${columnsText(columns)}`
+        : `${capsuleName(colors)} landed in ${columnsText(columns)}`;
+    }
+    case 'chainStep': {
+      const colors = [...new Set(event.colors)].map(colorName).join(' and ');
+      const time = event.timeAddedMs > 0 ? `, plus ${Math.round(event.timeAddedMs / 1000)} seconds` : '';
+      const cleared = `${event.cleared} ${colors} cleared${time}`;
+      return event.combo > 1 ? `Chain of ${event.combo}, ${cleared}` : `Cleared ${event.cleared} ${colors}${time}`;
+    }
+    case 'waveStarted':
+      return `Wave ${event.level}`;
+    case 'split':
+      return `${event.germs} germs down`;
+    case 'waveCleared':
+      return 'Tray cleared';
+    // Game over, level complete and pause have their own screen; inputs the
+    // player just made need no echo
+    default:
+      return null;
+  }
+};
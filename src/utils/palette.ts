@@ -0,0 +1,108 @@
+import { theme } from './theme';
+import { Color } from '../game/utils/constants';
+
+type Gradient = readonly [string, string, ...string[]];
+
+// Render colors for each game Color. Kept beside the theme rather than in
+// the game constants so the simulation core stays free of UI imports.
+// Typed as full records so a new Color fails to compile until it has a look.
+export const COLOR_VALUES: Record<Color, string> = {
+  [Color.RED]: theme.colors.primary.red,
+  [Color.BLUE]: theme.colors.secondary.blue,
+  [Color.YELLOW]: theme.colors.tertiary.yellow,
+  [Color.GREEN]: theme.colors.quaternary.green,
+  [Color.PURPLE]: theme.colors.quinary.purple,
+};
+
+export const COLOR_GRADIENTS: Record<Color, Gradient> = {
+  [Color.RED]: theme.colors.pill.red,
+  [Color.BLUE]: theme.colors.pill.blue,
+  [Color.YELLOW]: theme.colors.pill.yellow,
+  [Color.GREEN]: theme.colors.pill.green,
+  [Color.PURPLE]: theme.colors.pill.purple,
+};
+
+export const VIRUS_GRADIENTS: Record<Color, Gradient> = {
+  [Color.RED]: theme.colors.virus.red,
+  [Color.BLUE]: theme.colors.virus.blue,
+  [Color.YELLOW]: theme.colors.virus.yellow,
+  [Color.GREEN]: theme.colors.virus.green,
+  [Color.PURPLE]: theme.colors.virus.purple,
+};
+
+export type PaletteName = 'standard' | 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export interface Palette {
+  label: string;
+  values: Record<Color, string>;
+  pill: Record<Color, Gradient>;
+  virus: Record<Color, Gradient>;
+}
+
+// How pieces are drawn for this player: which palette, and whether every
+// capsule half and germ carries its color's symbol
+export interface ColorStyle {
+  palette: PaletteName;
+  symbols: boolean;
+}
+
+export const DEFAULT_COLOR_STYLE: ColorStyle = { palette: 'standard', symbols: false };
+
+// One symbol per color, distinct in shape so they read without any hue
+export const COLOR_SYMBOLS: Record<Color, string> = {
+  [Color.RED]: '▲',
+  [Color.BLUE]: '●',
+  [Color.YELLOW]: '■',
+  [Color.GREEN]: '◆',
+  [Color.PURPLE]: '✕',
+};
+
+// Blend a #RRGGBB color toward white (amount > 0) or black (amount < 0)
+const shade = (hex: string, amount: number): string => {
+  const target = amount > 0 ? 255 : 0;
+  const channels = [1, 3, 5].map(i => parseInt(hex.slice(i, i + 2), 16));
+  return `#${channels
+    .map(c => Math.round(c + (target - c) * Math.abs(amount)).toString(16).padStart(2, '0'))
+    .join('')}`;
+};
+
+// Gradients for a palette given only its base colors, shaded the way the
+// standard theme's hand-picked ones are
+const paletteFrom = (label: string, values: Record<Color, string>): Palette => {
+  const map = (make: (hex: string) => Gradient) =>
+    Object.fromEntries(Object.entries(values).map(([color, hex]) => [color, make(hex)])) as Record<Color, Gradient>;
+  return {
+    label,
+    values,
+    pill: map(hex => [shade(hex, 0.7), hex, shade(hex, -0.15)]),
+    virus: map(hex => [shade(hex, 0.3), shade(hex, -0.06), shade(hex, -0.28)]),
+  };
+};
+
+// The alternatives keep every pair apart for their kind of color vision:
+// red-green for deuteranopia and protanopia (the latter also sees red
+// darker, so it gets a brighter orange), blue-yellow for tritanopia
+export const PALETTES: Record<PaletteName, Palette> = {
+  standard: { label: 'Standard', values: COLOR_VALUES, pill: COLOR_GRADIENTS, virus: VIRUS_GRADIENTS },
+  deuteranopia: paletteFrom('Deuteranopia', {
+    [Color.RED]: '#D55E00',
+    [Color.BLUE]: '#0072B2',
+    [Color.YELLOW]: '#F0E442',
+    [Color.GREEN]: '#56B4E9',
+    [Color.PURPLE]: '#CC79A7',
+  }),
+  protanopia: paletteFrom('Protanopia', {
+    [Color.RED]: '#E69F00',
+    [Color.BLUE]: '#0072B2',
+    [Color.YELLOW]: '#F5F0A0',
+    [Color.GREEN]: '#56B4E9',
+    [Color.PURPLE]: '#CC79A7',
+  }),
+  tritanopia: paletteFrom('Tritanopia', {
+    [Color.RED]: '#D81B60',
+    [Color.BLUE]: '#1E88E5',
+    [Color.YELLOW]: '#FFB000',
+    [Color.GREEN]: '#004D40',
+    [Color.PURPLE]: '#F4A6C6',
+  }),
+};
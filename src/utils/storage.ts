@@ -1,12 +1,42 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { SpeedSetting, SavedGameState, EndlessSnapshot } from '../game/utils/types';
+import { GameMode, SpeedSetting, SavedGameState, EngineSnapshot, ReplayLog, PuzzleLevel, DailyResult, SprintBests, SprintRecord } from '../game/utils/types';
+import { GameState } from '../game/utils/constants';
+import { parsePuzzle } from '../game/puzzles/PuzzleFormat';
+import { isReplayLog } from '../game/replay/ReplayPlayer';
+import { migrateSnapshot } from '../game/snapshot/SnapshotFormat';
+import { PaletteName } from './palette';
+import { KeyBindings, KeyRepeatSettings, restoreKeyBindings, restoreKeyRepeat } from './keyBindings';
 
 const STORAGE_KEYS = {
   GAME_STATE: '@PillPanic:gameState',
   ENDLESS_STATE: '@PillPanic:endlessState',
+  CLASSIC_RUN: '@PillPanic:classicRun',
   SETTINGS: '@PillPanic:settings',
   HIGH_SCORES: '@PillPanic:highScores',
   TUTORIAL_SEEN: '@PillPanic:tutorialSeen',
+  REPLAYS: '@PillPanic:replays',
+  SOLVED_PUZZLES: '@PillPanic:solvedPuzzles',
+  CUSTOM_PUZZLES: '@PillPanic:customPuzzles',
+  DAILY_HISTORY: '@PillPanic:dailyHistory',
+  SPRINT_BESTS: '@PillPanic:sprintBests',
+};
+
+// Only the best few runs of each kind keep their input logs
+const MAX_SAVED_REPLAYS = 5;
+
+// Runs only compete with runs of the same kind: the same mode at the same
+// speed, and for puzzles the same level
+const replayGroup = (replay: ReplayLog): string =>
+  [replay.mode, replay.speedSetting, replay.puzzle?.id ?? ''].join('|');
+
+// Puzzle and sprint runs rank by whether they cleared the tray, then by
+// how quickly; everything else by score
+const compareReplays = (a: ReplayLog, b: ReplayLog): number => {
+  if (a.puzzle || a.mode === GameMode.SPRINT) {
+    const solved = (replay: ReplayLog) => (replay.finalState === GameState.LEVEL_COMPLETE ? 1 : 0);
+    return solved(b) - solved(a) || a.ticks - b.ticks;
+  }
+  return b.finalScore - a.finalScore;
 };
 
 export interface GameSettings {
@@ -14,6 +44,19 @@ export interface GameSettings {
   soundEnabled: boolean;
   hapticsEnabled: boolean;
   reducedMotion: boolean;
+  // Shows the Hint button in play (a few per level, at a cost to the bonus)
+  hintsEnabled: boolean;
+  // Outlines where the held or selected piece will land
+  landingGhost: boolean;
+  // Color vision: the palette pieces are drawn in, and a symbol per color
+  colorPalette: PaletteName;
+  colorSymbols: boolean;
+  // Spoken play-by-play on the web. Browsers can't tell whether a screen
+  // reader is running, so there it's switched on here instead
+  webNarration: boolean;
+  // Keyboard: the keys for each action, and how held keys repeat
+  keyBindings: KeyBindings;
+  keyRepeat: KeyRepeatSettings;
 }
 
 export const Storage = {
@@ -41,7 +84,7 @@ export const Storage = {
   },
 
   // Save an in-progress Endless run
-  async saveEndlessGame(snapshot: EndlessSnapshot): Promise<void> {
+  async saveEndlessGame(snapshot: EngineSnapshot): Promise<void> {
     try {
       await AsyncStorage.setItem(STORAGE_KEYS.ENDLESS_STATE, JSON.stringify(snapshot));
     } catch (error) {
@@ -49,17 +92,15 @@ export const Storage = {
     }
   },
 
-  // Load a saved Endless run, if any
-  async loadEndlessGame(): Promise<EndlessSnapshot | null> {
+  // Load a saved Endless run, if any. Saves from older versions are brought
+  // up to the current snapshot format.
+  async loadEndlessGame(): Promise<EngineSnapshot | null> {
     try {
       const saved = await AsyncStorage.getItem(STORAGE_KEYS.ENDLESS_STATE);
       if (!saved) return null;
-      const parsed = JSON.parse(saved) as EndlessSnapshot;
       // Guard against corrupt or empty snapshots
-      if (!parsed || !Array.isArray(parsed.cells) || typeof parsed.wave !== 'number') {
-        return null;
-      }
-      return parsed;
+      const snapshot = migrateSnapshot(JSON.parse(saved));
+      return snapshot?.mode === GameMode.ENDLESS ? snapshot : null;
     } catch (error) {
       console.error('Failed to load endless game:', error);
       return null;
@@ -74,6 +115,36 @@ export const Storage = {
     }
   },
 
+  // Save the Classic tray being played, mid-level. Level progress
+  // (saveGameProgress) is kept separately and only moves on a clear.
+  async saveClassicRun(snapshot: EngineSnapshot): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CLASSIC_RUN, JSON.stringify(snapshot));
+    } catch (error) {
+      console.error('Failed to save classic run:', error);
+    }
+  },
+
+  async loadClassicRun(): Promise<EngineSnapshot | null> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.CLASSIC_RUN);
+      if (!saved) return null;
+      const snapshot = migrateSnapshot(JSON.parse(saved));
+      return snapshot?.mode === GameMode.CLASSIC ? snapshot : null;
+    } catch (error) {
+      console.error('Failed to load classic run:', error);
+      return null;
+    }
+  },
+
+  async clearClassicRun(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(STORAGE_KEYS.CLASSIC_RUN);
+    } catch (error) {
+      console.error('Failed to clear classic run:', error);
+    }
+  },
+
   // Save settings
   async saveSettings(settings: GameSettings): Promise<void> {
     try {
@@ -93,6 +164,13 @@ export const Storage = {
           ...parsed,
           hapticsEnabled: parsed.hapticsEnabled ?? true,
           reducedMotion: parsed.reducedMotion ?? false,
+          hintsEnabled: parsed.hintsEnabled ?? false,
+          landingGhost: parsed.landingGhost ?? true,
+          colorPalette: parsed.colorPalette ?? 'standard',
+          colorSymbols: parsed.colorSymbols ?? false,
+          webNarration: parsed.webNarration ?? false,
+          keyBindings: restoreKeyBindings(parsed.keyBindings),
+          keyRepeat: restoreKeyRepeat(parsed.keyRepeat),
         };
       }
       return null;
@@ -131,15 +209,163 @@ export const Storage = {
     }
   },
 
+  // Keep a finished run's replay if it ranks among the best of its kind
+  async saveReplay(replay: ReplayLog): Promise<void> {
+    try {
+      const replays = await Storage.loadReplays();
+      const group = replayGroup(replay);
+      const ranked = [...replays.filter(r => replayGroup(r) === group), replay]
+        .sort(compareReplays)
+        .slice(0, MAX_SAVED_REPLAYS);
+      const kept = [...replays.filter(r => replayGroup(r) !== group), ...ranked];
+      await AsyncStorage.setItem(STORAGE_KEYS.REPLAYS, JSON.stringify(kept));
+    } catch (error) {
+      console.error('Failed to save replay:', error);
+    }
+  },
+
+  // Saved replays, grouped by kind with the best of each first. Any that
+  // no longer check out are dropped rather than played back wrong.
+  async loadReplays(): Promise<ReplayLog[]> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.REPLAYS);
+      if (!saved) return [];
+      const parsed: unknown = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed.filter(isReplayLog) : [];
+    } catch (error) {
+      console.error('Failed to load replays:', error);
+      return [];
+    }
+  },
+
+  // Ids of puzzles the player has solved at least once
+  async loadSolvedPuzzles(): Promise<string[]> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.SOLVED_PUZZLES);
+      if (!saved) return [];
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed.filter(id => typeof id === 'string') : [];
+    } catch (error) {
+      console.error('Failed to load solved puzzles:', error);
+      return [];
+    }
+  },
+
+  async markPuzzleSolved(id: string): Promise<void> {
+    try {
+      const solved = await Storage.loadSolvedPuzzles();
+      if (solved.includes(id)) return;
+      await AsyncStorage.setItem(STORAGE_KEYS.SOLVED_PUZZLES, JSON.stringify([...solved, id]));
+    } catch (error) {
+      console.error('Failed to save solved puzzle:', error);
+    }
+  },
+
+  // Puzzles built in the level editor, oldest first
+  async loadCustomPuzzles(): Promise<PuzzleLevel[]> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.CUSTOM_PUZZLES);
+      if (!saved) return [];
+      const parsed: unknown = JSON.parse(saved);
+      if (!Array.isArray(parsed)) return [];
+      // Saved levels get the same checks as imported ones; any that no
+      // longer parse are dropped rather than opened broken
+      return parsed.flatMap(raw => {
+        const result = parsePuzzle(raw);
+        return result.ok ? [result.puzzle] : [];
+      });
+    } catch (error) {
+      console.error('Failed to load custom puzzles:', error);
+      return [];
+    }
+  },
+
+  // Insert, or replace the saved puzzle with the same id
+  async saveCustomPuzzle(puzzle: PuzzleLevel): Promise<void> {
+    try {
+      const puzzles = await Storage.loadCustomPuzzles();
+      const index = puzzles.findIndex(p => p.id === puzzle.id);
+      if (index >= 0) puzzles[index] = puzzle;
+      else puzzles.push(puzzle);
+      await AsyncStorage.setItem(STORAGE_KEYS.CUSTOM_PUZZLES, JSON.stringify(puzzles));
+    } catch (error) {
+      console.error('Failed to save custom puzzle:', error);
+    }
+  },
+
+  async deleteCustomPuzzle(id: string): Promise<void> {
+    try {
+      const puzzles = await Storage.loadCustomPuzzles();
+      await AsyncStorage.setItem(STORAGE_KEYS.CUSTOM_PUZZLES, JSON.stringify(puzzles.filter(p => p.id !== id)));
+    } catch (error) {
+      console.error('Failed to delete custom puzzle:', error);
+    }
+  },
+
+  // Daily challenge attempts, one per day, oldest first
+  async loadDailyHistory(): Promise<DailyResult[]> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.DAILY_HISTORY);
+      if (!saved) return [];
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed.filter(r => r && typeof r.date === 'string' && typeof r.score === 'number') : [];
+    } catch (error) {
+      console.error('Failed to load daily history:', error);
+      return [];
+    }
+  },
+
+  // Insert, or replace the result for the same day
+  async saveDailyResult(result: DailyResult): Promise<void> {
+    try {
+      const history = await Storage.loadDailyHistory();
+      const updated = [...history.filter(r => r.date !== result.date), result].sort((a, b) => a.date.localeCompare(b.date));
+      await AsyncStorage.setItem(STORAGE_KEYS.DAILY_HISTORY, JSON.stringify(updated));
+    } catch (error) {
+      console.error('Failed to save daily result:', error);
+    }
+  },
+
+  // Fastest sprint clear per difficulty
+  async loadSprintBests(): Promise<SprintBests> {
+    try {
+      const saved = await AsyncStorage.getItem(STORAGE_KEYS.SPRINT_BESTS);
+      if (!saved) return {};
+      const parsed = JSON.parse(saved);
+      return parsed && typeof parsed === 'object' ? parsed : {};
+    } catch (error) {
+      console.error('Failed to load sprint bests:', error);
+      return {};
+    }
+  },
+
+  // Keep the record only if it beats the stored best for its difficulty
+  async saveSprintRecord(speedSetting: SpeedSetting, record: SprintRecord): Promise<void> {
+    try {
+      const bests = await Storage.loadSprintBests();
+      const best = bests[speedSetting];
+      if (best && best.timeMs <= record.timeMs) return;
+      await AsyncStorage.setItem(STORAGE_KEYS.SPRINT_BESTS, JSON.stringify({ ...bests, [speedSetting]: record }));
+    } catch (error) {
+      console.error('Failed to save sprint record:', error);
+    }
+  },
+
   // Clear all saved data
   async clearAllData(): Promise<void> {
     try {
       await AsyncStorage.multiRemove([
         STORAGE_KEYS.GAME_STATE,
         STORAGE_KEYS.ENDLESS_STATE,
+        STORAGE_KEYS.CLASSIC_RUN,
         STORAGE_KEYS.SETTINGS,
         STORAGE_KEYS.HIGH_SCORES,
         STORAGE_KEYS.TUTORIAL_SEEN,
+        STORAGE_KEYS.REPLAYS,
+        STORAGE_KEYS.SOLVED_PUZZLES,
+        STORAGE_KEYS.CUSTOM_PUZZLES,
+        STORAGE_KEYS.DAILY_HISTORY,
+        STORAGE_KEYS.SPRINT_BESTS,
       ]);
     } catch (error) {
       console.error('Failed to clear data:', error);
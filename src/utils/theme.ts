@@ -26,6 +26,17 @@ export const theme = {
       yellowDark: '#F8B84E',
       yellowGradient: ['#FFE98A', '#FFD85A', '#F8B84E'] as const,
     },
+    // Extra capsule colors for expert play
+    quaternary: {
+      green: '#7ED957',
+      greenDark: '#4FA83A',
+      greenGradient: ['#A8EC8A', '#7ED957', '#4FA83A'] as const,
+    },
+    quinary: {
+      purple: '#B38BFA',
+      purpleDark: '#7C5CC9',
+      purpleGradient: ['#D2B8FF', '#B38BFA', '#7C5CC9'] as const,
+    },
     mint: '#58D6B7',
     mintDark: '#21A889',
     lavender: '#9B8CFF',
@@ -55,11 +66,15 @@ export const theme = {
       red: ['#FF8A7E', '#E95B5B', '#B74646'] as const,
       blue: ['#8FD0FF', '#67B8F7', '#397DBE'] as const,
       yellow: ['#FFE98A', '#FFD85A', '#F8B84E'] as const,
+      green: ['#A8EC8A', '#6CCB4C', '#3F8F2E'] as const,
+      purple: ['#D2B8FF', '#A67DF0', '#6B4CB5'] as const,
     },
     pill: {
       red: ['#FFD3CE', '#F76F6A', '#D94F4B'] as const,
       blue: ['#D5F0FF', '#67B8F7', '#397DBE'] as const,
       yellow: ['#FFF4B8', '#FFD85A', '#F8B84E'] as const,
+      green: ['#DDF8CF', '#7ED957', '#4FA83A'] as const,
+      purple: ['#ECE0FF', '#B38BFA', '#7C5CC9'] as const,
     },
     boardBackground: '#F7FBF8',
     boardBorder: 'rgba(88, 214, 183, 0.38)',